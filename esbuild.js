@@ -1,4 +1,6 @@
 const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
@@ -23,6 +25,48 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+/**
+ * highlight.js themes offered by the `markdownMultiPreview.codeTheme` setting
+ * @returns {{ from: string, to: string }[]}
+ */
+function getCodeThemeAssets() {
+	const setting = require('./package.json').contributes.configuration.properties['markdownMultiPreview.codeTheme'];
+	const names = new Set([...setting.properties.light.enum, ...setting.properties.dark.enum]);
+	names.delete('default');
+	return [...names].map((name) => ({
+		from: `node_modules/highlight.js/styles/${name}.min.css`,
+		to: `dist/highlight-styles/${name}.min.css`,
+	}));
+}
+
+/**
+ * Browser bundles loaded by the preview webview, copied next to the extension bundle
+ * @type {{ from: string, to: string }[]}
+ */
+const webviewAssets = [
+	{ from: 'node_modules/mermaid/dist/mermaid.min.js', to: 'dist/mermaid.min.js' },
+	{ from: 'node_modules/katex/dist/katex.min.css', to: 'dist/katex/katex.min.css' },
+	{ from: 'node_modules/katex/dist/fonts', to: 'dist/katex/fonts' },
+	...getCodeThemeAssets(),
+];
+
+/**
+ * @type {import('esbuild').Plugin}
+ */
+const copyWebviewAssetsPlugin = {
+	name: 'copy-webview-assets',
+
+	setup(build) {
+		build.onEnd(() => {
+			for (const asset of webviewAssets) {
+				const target = path.join(__dirname, asset.to);
+				fs.mkdirSync(path.dirname(target), { recursive: true });
+				fs.cpSync(path.join(__dirname, asset.from), target, { recursive: true });
+			}
+		});
+	},
+};
+
 async function main() {
 	const ctx = await esbuild.context({
 		entryPoints: [
@@ -38,6 +82,7 @@ async function main() {
 		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
+			copyWebviewAssetsPlugin,
 			/* add to the end of plugins array */
 			esbuildProblemMatcherPlugin,
 		],
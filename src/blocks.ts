@@ -0,0 +1,70 @@
+import type MarkdownIt from "markdown-it";
+
+// ========== TOP-LEVEL BLOCKS ==========
+
+// Elements without a closing tag
+const voidElements = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const htmlTagRegex = /<(\/?)([a-z][\w-]*)\b[^>]*?(\/?)>/gi;
+
+// Track the elements a raw HTML block opens and closes. Closing tags pop
+// back to their matching opening tag; stray ones are ignored.
+function updateOpenElements(openElements: string[], html: string): void {
+  const content = html.replace(/<!--[\s\S]*?(?:-->|$)/g, "");
+  for (const match of content.matchAll(htmlTagRegex)) {
+    const name = match[2].toLowerCase();
+    if (match[1]) {
+      const index = openElements.lastIndexOf(name);
+      if (index !== -1) {
+        openElements.length = index;
+      }
+    } else if (!match[3] && !voidElements.has(name)) {
+      openElements.push(name);
+    }
+  }
+}
+
+// Group a token stream into top-level blocks (paragraphs, lists, fences, ...).
+// Raw HTML that wraps Markdown, like `<details>` ... `</details>`, spans
+// several blocks; those are kept together up to the closing tag so each
+// group is well-formed HTML on its own.
+export function splitTopLevelBlocks(
+  tokens: MarkdownIt.Token[]
+): MarkdownIt.Token[][] {
+  const blocks: MarkdownIt.Token[][] = [];
+  const openElements: string[] = [];
+  let current: MarkdownIt.Token[] = [];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (depth === 0 && token.type === "html_block") {
+      updateOpenElements(openElements, token.content);
+    }
+    current.push(token);
+    depth += token.nesting;
+    if (depth === 0 && openElements.length === 0) {
+      blocks.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) {
+    blocks.push(current);
+  }
+
+  return blocks;
+}
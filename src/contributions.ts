@@ -0,0 +1,166 @@
+import * as vscode from "vscode";
+import type MarkdownIt from "markdown-it";
+
+// ========== MARKDOWN CONTRIBUTIONS ==========
+
+// A markdown-it plugin in the form of VS Code's `extendMarkdownIt` hook
+export type MarkdownItPlugin = (md: MarkdownIt) => MarkdownIt | void;
+
+// Plugins, stylesheets and scripts other extensions add to the preview
+export interface PreviewContributions {
+  // Plugins with the extension (or API caller) they come from, for errors
+  plugins: { source: string; extendMarkdownIt: MarkdownItPlugin }[];
+  styles: vscode.Uri[];
+  scripts: vscode.Uri[];
+  // Folders the webview needs access to for the styles and scripts
+  resourceRoots: vscode.Uri[];
+}
+
+// Public API returned from activate(), with the same hooks as the
+// `markdown.markdownItPlugins`, `markdown.previewStyles` and
+// `markdown.previewScripts` contribution points
+export interface MarkdownMultiPreviewApi {
+  extendMarkdownIt(plugin: MarkdownItPlugin): vscode.Disposable;
+  addPreviewStyle(uri: vscode.Uri): vscode.Disposable;
+  addPreviewScript(uri: vscode.Uri): vscode.Disposable;
+}
+
+// Extensions that duplicate a feature the preview has built in. VS Code's
+// math extension installs a second markdown-it-katex, whose rules would
+// shadow ours and ignore the math settings, and brings its own KaTeX styles.
+const builtInFeatureExtensions = new Set(["vscode.markdown-math"]);
+
+// Contributions found in the package.json of installed extensions
+let extensionContributions: PreviewContributions = {
+  plugins: [],
+  styles: [],
+  scripts: [],
+  resourceRoots: [],
+};
+
+// Identifies what extensionContributions holds, to skip reloads that
+// change nothing
+let extensionContributionsKey = "";
+
+// Contributions registered at runtime through the API
+const apiPlugins = new Set<MarkdownItPlugin>();
+const apiStyles = new Set<vscode.Uri>();
+const apiScripts = new Set<vscode.Uri>();
+
+const changeEmitter = new vscode.EventEmitter<void>();
+
+// Fires when plugins, styles or scripts are added or removed
+export const onDidChangePreviewContributions = changeEmitter.event;
+
+export function getPreviewContributions(): PreviewContributions {
+  const apiFiles = [...apiStyles, ...apiScripts];
+  return {
+    plugins: [
+      ...extensionContributions.plugins,
+      ...[...apiPlugins].map((extendMarkdownIt) => ({
+        source: "markdownMultiPreview API",
+        extendMarkdownIt,
+      })),
+    ],
+    styles: [...extensionContributions.styles, ...apiStyles],
+    scripts: [...extensionContributions.scripts, ...apiScripts],
+    resourceRoots: [
+      ...extensionContributions.resourceRoots,
+      ...apiFiles.map((uri) => vscode.Uri.joinPath(uri, "..")),
+    ],
+  };
+}
+
+// Paths listed in a contribution point, resolved against the extension
+function getContributedFiles(
+  extension: vscode.Extension<unknown>,
+  value: unknown
+): vscode.Uri[] {
+  return Array.isArray(value)
+    ? value
+        .filter((path): path is string => typeof path === "string")
+        .map((path) => vscode.Uri.joinPath(extension.extensionUri, path))
+    : [];
+}
+
+// Read the contribution points of all installed extensions. Extensions with
+// markdown-it plugins are activated to get their `extendMarkdownIt` export.
+export async function loadExtensionContributions(): Promise<void> {
+  const contributions: PreviewContributions = {
+    plugins: [],
+    styles: [],
+    scripts: [],
+    resourceRoots: [],
+  };
+  const keys: string[] = [];
+
+  for (const extension of vscode.extensions.all) {
+    const contributes = extension.packageJSON?.contributes;
+    if (!contributes || builtInFeatureExtensions.has(extension.id)) {
+      continue;
+    }
+
+    const styles = getContributedFiles(
+      extension,
+      contributes["markdown.previewStyles"]
+    );
+    const scripts = getContributedFiles(
+      extension,
+      contributes["markdown.previewScripts"]
+    );
+    if (styles.length > 0 || scripts.length > 0) {
+      contributions.styles.push(...styles);
+      contributions.scripts.push(...scripts);
+      contributions.resourceRoots.push(extension.extensionUri);
+    }
+
+    if (contributes["markdown.markdownItPlugins"]) {
+      try {
+        const exports = extension.isActive
+          ? extension.exports
+          : await extension.activate();
+        const extendMarkdownIt = (exports as { extendMarkdownIt?: unknown })
+          ?.extendMarkdownIt;
+        if (typeof extendMarkdownIt === "function") {
+          contributions.plugins.push({
+            source: extension.id,
+            extendMarkdownIt: (md) => extendMarkdownIt.call(exports, md),
+          });
+          keys.push(extension.id);
+        }
+      } catch (error) {
+        console.error(
+          `Failed to load the markdown-it plugin of ${extension.id}:`,
+          error
+        );
+      }
+    }
+    keys.push(...[...styles, ...scripts].map((uri) => uri.toString()));
+  }
+
+  const key = keys.join("\n");
+  if (key !== extensionContributionsKey) {
+    extensionContributions = contributions;
+    extensionContributionsKey = key;
+    changeEmitter.fire();
+  }
+}
+
+// Register a contribution until the returned disposable is disposed
+function addToSet<T>(set: Set<T>, item: T): vscode.Disposable {
+  set.add(item);
+  changeEmitter.fire();
+  return new vscode.Disposable(() => {
+    if (set.delete(item)) {
+      changeEmitter.fire();
+    }
+  });
+}
+
+export function createPreviewApi(): MarkdownMultiPreviewApi {
+  return {
+    extendMarkdownIt: (plugin) => addToSet(apiPlugins, plugin),
+    addPreviewStyle: (uri) => addToSet(apiStyles, uri),
+    addPreviewScript: (uri) => addToSet(apiScripts, uri),
+  };
+}
@@ -0,0 +1,427 @@
+// ========== RENDERED DIFF ==========
+
+// One rendered top-level block of a document
+export interface DiffBlock {
+  html: string;
+  line: number;
+  // First token of the block, e.g. `paragraph_open:p` or `fence:code`
+  kind: string;
+}
+
+export interface RenderedDiff {
+  blocks: string[];
+  lines: number[];
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+type DiffOp =
+  | { type: "equal"; oldIndex: number; newIndex: number }
+  | { type: "removed"; oldIndex: number }
+  | { type: "added"; newIndex: number };
+
+// Above this many LCS cells, changed regions are shown as removed + added
+const MAX_LCS_CELLS = 4_000_000;
+
+// Blocks whose text is compared word by word when they change; code,
+// math and diagrams are shown as a removed and an added block instead
+const inlineDiffKinds = [
+  "paragraph_open",
+  "heading_open",
+  "bullet_list_open",
+  "ordered_list_open",
+  "blockquote_open",
+  "table_open",
+];
+
+// Longest-common-subsequence diff of two sequences
+function diffSequences<T>(oldItems: T[], newItems: T[]): DiffOp[] {
+  let start = 0;
+  while (
+    start < oldItems.length &&
+    start < newItems.length &&
+    oldItems[start] === newItems[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldItems.length;
+  let newEnd = newItems.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldItems[oldEnd - 1] === newItems[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < start; i++) {
+    ops.push({ type: "equal", oldIndex: i, newIndex: i });
+  }
+
+  const rows = oldEnd - start;
+  const cols = newEnd - start;
+  if (rows * cols > MAX_LCS_CELLS) {
+    for (let i = start; i < oldEnd; i++) {
+      ops.push({ type: "removed", oldIndex: i });
+    }
+    for (let j = start; j < newEnd; j++) {
+      ops.push({ type: "added", newIndex: j });
+    }
+  } else {
+    // lengths[i * (cols + 1) + j]: LCS length of the suffixes from i and j
+    const lengths = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * (cols + 1) + j] =
+          oldItems[start + i] === newItems[start + j]
+            ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * (cols + 1) + j],
+                lengths[i * (cols + 1) + j + 1]
+              );
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && oldItems[start + i] === newItems[start + j]) {
+        ops.push({ type: "equal", oldIndex: start + i, newIndex: start + j });
+        i++;
+        j++;
+      } else if (
+        i < rows &&
+        (j === cols ||
+          lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1])
+      ) {
+        // Removals come before additions, like in a text diff
+        ops.push({ type: "removed", oldIndex: start + i });
+        i++;
+      } else {
+        ops.push({ type: "added", newIndex: start + j });
+        j++;
+      }
+    }
+  }
+
+  for (let i = oldEnd; i < oldItems.length; i++) {
+    ops.push({
+      type: "equal",
+      oldIndex: i,
+      newIndex: newEnd + (i - oldEnd),
+    });
+  }
+  return ops;
+}
+
+const tokenPattern = /<[^>]*>|[^<\s]+|\s+/g;
+
+// Elements compared as a whole, so a removed list, list item or table row
+// stays an element of its own instead of merging its text into the next one
+const unitTags = ["ul", "ol", "li", "tr"];
+
+// Removed blocks don't map to source lines or anchors of the new document
+function stripRemovedBlock(html: string): string {
+  return html.replace(/\s(?:data-line-offset|id)="[^"]*"/g, "");
+}
+
+// Add a class to the opening tag of an element
+function addClass(html: string, className: string): string {
+  return html.replace(/^<([\w-]+)([^>]*)>/, (tag, name, attrs: string) =>
+    / class="/.test(attrs)
+      ? tag.replace(/ class="/, ` class="${className} `)
+      : `<${name} class="${className}"${attrs}>`
+  );
+}
+
+// Split HTML into tags, words and whitespace. Unit elements after the first
+// `start` tokens become one token each, including the whitespace after them.
+function tokenizeHtml(html: string, start = 0): string[] {
+  const tokens: string[] = [];
+  let unit: { tag: string; depth: number; html: string } | null = null;
+  let afterUnit = false;
+
+  for (const [index, token] of (html.match(tokenPattern) || []).entries()) {
+    const tag = /^<(\/?)([\w-]+)/.exec(token);
+    const name = tag ? tag[2].toLowerCase() : "";
+    if (unit) {
+      unit.html += token;
+      if (name === unit.tag) {
+        unit.depth += tag?.[1] ? -1 : 1;
+      }
+      if (unit.depth === 0) {
+        tokens.push(unit.html);
+        unit = null;
+        afterUnit = true;
+      }
+      continue;
+    }
+
+    if (afterUnit && /^\s+$/.test(token)) {
+      tokens[tokens.length - 1] += token;
+    } else if (index >= start && tag && !tag[1] && unitTags.includes(name)) {
+      unit = { tag: name, depth: 1, html: token };
+    } else {
+      tokens.push(token);
+    }
+    afterUnit = false;
+  }
+  if (unit) {
+    tokens.push(unit.html);
+  }
+
+  return tokens;
+}
+
+// Tag name of a unit token, or undefined for other tokens
+function getUnitTag(token: string): string | undefined {
+  const tag = /^<([\w-]+)/.exec(token);
+  return tag && unitTags.includes(tag[1].toLowerCase())
+    ? tag[1].toLowerCase()
+    : undefined;
+}
+
+// Tags are matched by name only, so text changes stay inside the element
+// they belong to even when attributes such as heading ids differ. Units
+// match when their content is the same.
+function toKey(token: string): string {
+  if (getUnitTag(token)) {
+    return stripRemovedBlock(token);
+  }
+  return token.startsWith("<")
+    ? token.replace(/^(<\/?[\w-]*)[\s\S]*$/, "$1>")
+    : token;
+}
+
+// Mark word-level changes inside a changed block. The result keeps the new
+// block's tags, so only text is wrapped and the markup stays well formed.
+// Removed and added lists, list items and table rows get a class instead.
+export function diffInlineHtml(oldHtml: string, newHtml: string): string {
+  // The block's own element is never a unit, even when it is a list
+  return diffTokens(tokenizeHtml(oldHtml, 1), tokenizeHtml(newHtml, 1));
+}
+
+function diffTokens(oldTokens: string[], newTokens: string[]): string {
+  let html = "";
+  let run: "ins" | "del" | null = null;
+  // Changed whitespace outside a run opens the run only when a changed
+  // word of the same kind follows; otherwise added whitespace is kept
+  // unmarked and removed whitespace is dropped. This keeps markers out of
+  // list and table markup.
+  let pendingSpace: { run: "ins" | "del"; text: string } | null = null;
+  const setRun = (next: "ins" | "del" | null) => {
+    const space = pendingSpace;
+    pendingSpace = null;
+    if (space && space.run !== next && space.run === "ins") {
+      html += space.text;
+    }
+    if (run !== next) {
+      if (run === "ins") {
+        html += "</ins>";
+      } else if (run === "del") {
+        html += "</del>";
+      }
+      if (next === "ins") {
+        html += '<ins class="diff-inline-added">';
+      } else if (next === "del") {
+        html += '<del class="diff-inline-removed">';
+      }
+      run = next;
+    }
+    if (space && space.run === next) {
+      html += space.text;
+    }
+  };
+
+  const ops = diffSequences(oldTokens.map(toKey), newTokens.map(toKey));
+
+  // A removed unit is paired with the next added unit of the same tag in
+  // its changed region, and the two are compared word by word
+  const pairs = new Map<number, string>();
+  const pairedRemovals = new Set<number>();
+  for (let index = 0; index < ops.length; index++) {
+    const op = ops[index];
+    const unitTag =
+      op.type === "removed" ? getUnitTag(oldTokens[op.oldIndex]) : undefined;
+    if (op.type !== "removed" || !unitTag) {
+      continue;
+    }
+    for (let next = index + 1; next < ops.length; next++) {
+      const candidate = ops[next];
+      if (candidate.type === "equal") {
+        break;
+      }
+      if (
+        candidate.type === "added" &&
+        !pairs.has(next) &&
+        getUnitTag(newTokens[candidate.newIndex]) === unitTag
+      ) {
+        pairs.set(next, oldTokens[op.oldIndex]);
+        pairedRemovals.add(index);
+        break;
+      }
+    }
+  }
+
+  ops.forEach((op, index) => {
+    if (op.type === "equal") {
+      setRun(null);
+      html += newTokens[op.newIndex];
+      return;
+    }
+
+    const token =
+      op.type === "added" ? newTokens[op.newIndex] : oldTokens[op.oldIndex];
+    if (getUnitTag(token)) {
+      setRun(null);
+      const oldUnit = pairs.get(index);
+      if (oldUnit !== undefined) {
+        html += diffTokens(tokenizeHtml(oldUnit, 1), tokenizeHtml(token, 1));
+      } else if (op.type === "added") {
+        html += addClass(token, "diff-added");
+      } else if (!pairedRemovals.has(index)) {
+        html += addClass(stripRemovedBlock(token), "diff-removed");
+      }
+    } else if (token.startsWith("<")) {
+      // Old tags are dropped, new tags are kept outside the markers
+      setRun(null);
+      if (op.type === "added") {
+        html += token;
+      }
+    } else if (
+      /^\s+$/.test(token) &&
+      run !== (op.type === "added" ? "ins" : "del")
+    ) {
+      setRun(null);
+      pendingSpace = { run: op.type === "added" ? "ins" : "del", text: token };
+    } else {
+      setRun(op.type === "added" ? "ins" : "del");
+      html += token;
+    }
+  });
+  setRun(null);
+
+  return html;
+}
+
+function canDiffInline(oldBlock: DiffBlock, newBlock: DiffBlock): boolean {
+  return (
+    oldBlock.kind === newBlock.kind &&
+    inlineDiffKinds.includes(oldBlock.kind.split(":")[0])
+  );
+}
+
+// Merge two rendered documents into one, marking added, removed and changed
+// blocks. Unchanged blocks compare equal because their source lines are
+// relative to the block start.
+export function diffRenderedBlocks(
+  oldBlocks: DiffBlock[],
+  newBlocks: DiffBlock[]
+): RenderedDiff {
+  const result: RenderedDiff = {
+    blocks: [],
+    lines: [],
+    added: 0,
+    removed: 0,
+    changed: 0,
+  };
+  const ops = diffSequences(
+    oldBlocks.map((block) => block.html),
+    newBlocks.map((block) => block.html)
+  );
+
+  // Removed blocks sit at the line of the next new block
+  const lineAt = (newIndex: number) =>
+    newIndex < newBlocks.length
+      ? newBlocks[newIndex].line
+      : newBlocks.length > 0
+        ? newBlocks[newBlocks.length - 1].line
+        : 0;
+
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === "equal") {
+      result.blocks.push(newBlocks[op.newIndex].html);
+      result.lines.push(newBlocks[op.newIndex].line);
+      index++;
+      continue;
+    }
+
+    // Pair up the removed and added blocks of one changed region
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (index < ops.length && ops[index].type !== "equal") {
+      const change = ops[index];
+      if (change.type === "removed") {
+        removed.push(change.oldIndex);
+      } else if (change.type === "added") {
+        added.push(change.newIndex);
+      }
+      index++;
+    }
+    const next = ops[index];
+    const nextNewIndex =
+      next && next.type === "equal" ? next.newIndex : newBlocks.length;
+
+    const pushRemoved = (oldIndex: number, line: number) => {
+      result.blocks.push(
+        `<div class="diff-removed">${stripRemovedBlock(oldBlocks[oldIndex].html)}</div>`
+      );
+      result.lines.push(line);
+      result.removed++;
+    };
+    const pushAdded = (newIndex: number) => {
+      result.blocks.push(
+        `<div class="diff-added">${newBlocks[newIndex].html}</div>`
+      );
+      result.lines.push(newBlocks[newIndex].line);
+      result.added++;
+    };
+
+    // A removed block is paired with the next added block of the same
+    // kind, so e.g. an edited paragraph shows its word-level changes
+    let nextAdded = 0;
+    for (const oldIndex of removed) {
+      const match = added.findIndex(
+        (newIndex, i) =>
+          i >= nextAdded &&
+          newBlocks[newIndex].kind === oldBlocks[oldIndex].kind
+      );
+      if (match === -1) {
+        pushRemoved(
+          oldIndex,
+          lineAt(nextAdded < added.length ? added[nextAdded] : nextNewIndex)
+        );
+        continue;
+      }
+
+      for (; nextAdded < match; nextAdded++) {
+        pushAdded(added[nextAdded]);
+      }
+      const newIndex = added[nextAdded++];
+      if (canDiffInline(oldBlocks[oldIndex], newBlocks[newIndex])) {
+        result.blocks.push(
+          `<div class="diff-changed">${diffInlineHtml(
+            oldBlocks[oldIndex].html,
+            newBlocks[newIndex].html
+          )}</div>`
+        );
+        result.lines.push(newBlocks[newIndex].line);
+        result.changed++;
+      } else {
+        pushRemoved(oldIndex, newBlocks[newIndex].line);
+        pushAdded(newIndex);
+      }
+    }
+    for (; nextAdded < added.length; nextAdded++) {
+      pushAdded(added[nextAdded]);
+    }
+  }
+
+  return result;
+}
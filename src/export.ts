@@ -0,0 +1,248 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFile } from "child_process";
+import { pathToFileURL } from "url";
+import { escapeHtml } from "./html";
+
+// ========== STANDALONE HTML / PDF EXPORT ==========
+
+export interface ExportOptions {
+  title: string;
+  contentHtml: string;
+  tocHtml: string;
+  styles: string;
+  theme: "light" | "dark";
+  // Code highlighting colors, and whether they come from a highlight.js theme
+  codeThemeStyles: string;
+  customCodeTheme: boolean;
+  includeToc: boolean;
+  extraStyles?: string;
+}
+
+// Fallbacks for the VS Code theme variables the preview styles rely on,
+// so the exported page looks the same outside the editor
+const exportThemeVariables = `
+		:root {
+			--vscode-editor-foreground: #d4d4d4;
+			--vscode-editor-background: #1e1e1e;
+			--vscode-sideBar-background: #252526;
+			--vscode-panel-border: #3c3c3c;
+			--vscode-sideBarTitle-foreground: #bbbbbb;
+			--vscode-icon-foreground: #c5c5c5;
+			--vscode-textLink-foreground: #3794ff;
+			--vscode-list-hoverBackground: #2a2d2e;
+			--vscode-descriptionForeground: #9d9d9d;
+			--vscode-textCodeBlock-background: rgba(110, 118, 129, 0.4);
+			--vscode-editor-selectionBackground: #264f78;
+			--vscode-textBlockQuote-border: #007acc;
+		}
+
+		/* Interactive preview controls have no effect in an exported file */
+		.toc-toggle,
+		.toc-resize-handle,
+		.toc-floating-toggle {
+			display: none !important;
+		}
+
+		@media print {
+			html, body, .main-container, .content-area {
+				height: auto !important;
+				overflow: visible !important;
+			}
+
+			.toc-sidebar {
+				display: none !important;
+			}
+
+			.content-area {
+				max-width: 100%;
+			}
+
+			pre, blockquote, table, img {
+				break-inside: avoid;
+			}
+		}`;
+
+// Exports never run scripts, also not raw HTML ones kept with
+// `rawHtml: "allow"`, since PDF export opens the page in a browser. Styles
+// and images are inlined; other media keep file or web URLs.
+const exportCsp = [
+  "default-src 'none'",
+  "img-src data: file: https:",
+  "media-src data: file: https:",
+  "style-src 'unsafe-inline'",
+  "font-src data:",
+].join("; ");
+
+// Build a self-contained HTML page from rendered preview content
+export function buildStandaloneHtml(options: ExportOptions): string {
+  const containerClass = options.includeToc
+    ? "main-container"
+    : "main-container toc-hidden";
+  const tocSidebar = options.includeToc
+    ? `
+		<aside class="toc-sidebar">
+			<div class="toc-header">
+				<span class="toc-title">Contents</span>
+			</div>
+			<nav class="toc-content">${options.tocHtml}</nav>
+		</aside>`
+    : "";
+
+  const bodyClass = [
+    options.theme === "light" ? "light-theme" : "",
+    options.customCodeTheme ? "custom-code-theme" : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="${exportCsp}">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>${escapeHtml(options.title)}</title>
+	<style>${exportThemeVariables}
+${options.styles}
+${options.codeThemeStyles}
+${options.extraStyles || ""}
+	</style>
+</head>
+<body class="${bodyClass}">
+	<div class="${containerClass}">${tocSidebar}
+		<main class="content-area">
+${options.contentHtml}
+		</main>
+	</div>
+</body>
+</html>
+`;
+}
+
+// Mime types for resources that are inlined as data URIs
+const mimeTypes: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".bmp": "image/bmp",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+};
+
+// Read a local image or font as a data URI, or undefined when it cannot be inlined
+export function toDataUri(filePath: string): string | undefined {
+  const mimeType = mimeTypes[path.extname(filePath).toLowerCase()];
+  if (!mimeType) {
+    return undefined;
+  }
+
+  try {
+    const data = fs.readFileSync(filePath);
+    return `data:${mimeType};base64,${data.toString("base64")}`;
+  } catch (__) {
+    return undefined;
+  }
+}
+
+// KaTeX stylesheet with its woff2 fonts embedded, for exported math
+export function getInlinedKatexStyles(katexDir: string): string {
+  const css = fs.readFileSync(path.join(katexDir, "katex.min.css"), "utf8");
+  return css.replace(
+    /src:url\(fonts\/([^)]+?\.woff2)\) format\("woff2"\)[^;}]*/g,
+    (match, fileName: string) => {
+      const dataUri = toDataUri(path.join(katexDir, "fonts", fileName));
+      return dataUri ? `src:url(${dataUri}) format("woff2")` : match;
+    }
+  );
+}
+
+// Well-known install locations of Chromium-based browsers
+function getChromiumCandidates(): string[] {
+  switch (process.platform) {
+    case "win32": {
+      const roots = [
+        process.env["PROGRAMFILES"],
+        process.env["PROGRAMFILES(X86)"],
+        process.env["LOCALAPPDATA"],
+      ].filter((root): root is string => !!root);
+      return roots.flatMap((root) => [
+        path.join(root, "Google", "Chrome", "Application", "chrome.exe"),
+        path.join(root, "Chromium", "Application", "chrome.exe"),
+        path.join(root, "Microsoft", "Edge", "Application", "msedge.exe"),
+      ]);
+    }
+    case "darwin":
+      return [
+        "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+        "/Applications/Chromium.app/Contents/MacOS/Chromium",
+        "/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge",
+      ];
+    default: {
+      const names = [
+        "google-chrome",
+        "google-chrome-stable",
+        "chromium",
+        "chromium-browser",
+        "microsoft-edge",
+      ];
+      const dirs = (process.env["PATH"] || "").split(path.delimiter);
+      return dirs.flatMap((dir) => names.map((name) => path.join(dir, name)));
+    }
+  }
+}
+
+// Find a locally installed headless-capable Chromium, preferring the
+// configured path
+export function findChromium(configuredPath?: string): string | undefined {
+  const candidates = configuredPath
+    ? [configuredPath]
+    : getChromiumCandidates();
+  return candidates.find((candidate) => {
+    try {
+      return fs.statSync(candidate).isFile();
+    } catch (__) {
+      return false;
+    }
+  });
+}
+
+// Print standalone HTML to a PDF file with headless Chromium
+export async function printToPdf(
+  chromiumPath: string,
+  html: string,
+  pdfPath: string
+): Promise<void> {
+  const tempDir = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "markdown-multi-preview-")
+  );
+  const htmlPath = path.join(tempDir, "export.html");
+
+  try {
+    await fs.promises.writeFile(htmlPath, html, "utf8");
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        chromiumPath,
+        [
+          "--headless",
+          "--disable-gpu",
+          "--no-pdf-header-footer",
+          "--print-to-pdf-no-header",
+          `--user-data-dir=${path.join(tempDir, "profile")}`,
+          `--print-to-pdf=${pdfPath}`,
+          pathToFileURL(htmlPath).href,
+        ],
+        { timeout: 60000 },
+        (error) => (error ? reject(error) : resolve())
+      );
+    });
+    await fs.promises.access(pdfPath);
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
@@ -1,80 +1,57 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import MarkdownIt from "markdown-it";
 import hljs from "highlight.js";
+import type { KatexOptions } from "katex";
+import markdownItKatex, {
+  MarkdownKatexOptions,
+} from "@vscode/markdown-it-katex";
+import {
+  getDocumentFolder,
+  getLocalResourceRoots,
+  resolveLocalPath,
+  rewriteResourceUrls,
+} from "./resources";
+import { RawHtmlMode, sanitizeRenderedHtml } from "./sanitizer";
+import { SlugStrategy } from "./slugger";
+import { buildHierarchy, collectHeadings, MarkdownHeading } from "./headings";
+import {
+  FrontMatter,
+  FrontMatterDisplay,
+  frontMatterPlugin,
+  getFrontMatterTitle,
+} from "./frontMatter";
+import { DiffBlock, diffRenderedBlocks } from "./diff";
+import { splitTopLevelBlocks } from "./blocks";
+import { escapeHtml } from "./html";
+import { getFileAtRevision } from "./git";
+import {
+  createPreviewApi,
+  getPreviewContributions,
+  loadExtensionContributions,
+  MarkdownMultiPreviewApi,
+  onDidChangePreviewContributions,
+} from "./contributions";
+import {
+  collectAnchorIds,
+  collectLinks,
+  hasAnchor,
+  parseLinkTarget,
+} from "./links";
+import {
+  buildGridLayout,
+  getGridViewColumn,
+  SavedPreviewLayout,
+} from "./layout";
+import {
+  buildStandaloneHtml,
+  findChromium,
+  getInlinedKatexStyles,
+  printToPdf,
+  toDataUri,
+} from "./export";
 
-// ========== MARKDOWN HEADING PARSER ==========
-
-interface MarkdownHeading {
-  text: string;
-  level: number;
-  id: string;
-  children: MarkdownHeading[];
-}
-
-// Function to generate slug/id from heading text
-function generateSlug(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s-]/g, "")
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-")
-    .trim();
-}
-
-// Function to parse headings from markdown text
-function parseHeadings(markdownText: string): MarkdownHeading[] {
-  const lines = markdownText.split("\n");
-  const flatHeadings: MarkdownHeading[] = [];
-  const headingRegex = /^(#{1,6})\s+(.+)$/;
-  const slugCounts: Map<string, number> = new Map();
-
-  for (const line of lines) {
-    const match = line.match(headingRegex);
-    if (match) {
-      const level = match[1].length;
-      const text = match[2].trim();
-      let slug = generateSlug(text);
-
-      // Handle duplicate slugs
-      const count = slugCounts.get(slug) || 0;
-      if (count > 0) {
-        slug = `${slug}-${count}`;
-      }
-      slugCounts.set(generateSlug(text), count + 1);
-
-      flatHeadings.push({
-        text,
-        level,
-        id: slug,
-        children: [],
-      });
-    }
-  }
-
-  return buildHierarchy(flatHeadings);
-}
-
-// Build hierarchical structure from flat headings
-function buildHierarchy(flatHeadings: MarkdownHeading[]): MarkdownHeading[] {
-  const root: MarkdownHeading[] = [];
-  const stack: MarkdownHeading[] = [];
-
-  for (const heading of flatHeadings) {
-    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
-      stack.pop();
-    }
-
-    if (stack.length === 0) {
-      root.push(heading);
-    } else {
-      stack[stack.length - 1].children.push(heading);
-    }
-
-    stack.push(heading);
-  }
-
-  return root;
-}
+// ========== TABLE OF CONTENTS ==========
 
 // Generate TOC HTML recursively
 function generateTocHtml(
@@ -94,7 +71,7 @@ function generateTocHtml(
     if (hasChildren) {
       html += `<span class="toc-toggle" data-expanded="true">▼</span>`;
     }
-    html += `<a href="#${heading.id}" class="toc-link" data-level="${heading.level}">${heading.text}</a>`;
+    html += `<a href="#${escapeHtml(heading.id)}" class="toc-link" data-level="${heading.level}">${escapeHtml(heading.text)}</a>`;
     if (hasChildren) {
       html += generateTocHtml(heading.children, depth + 1);
     }
@@ -104,88 +81,121 @@ function generateTocHtml(
   return html;
 }
 
-// Initialize markdown-it renderer with highlight.js syntax highlighting
-const md = new MarkdownIt({
-  html: true,
-  linkify: true,
-  typographer: true,
-  highlight: function (str: string, lang: string) {
-    if (lang && hljs.getLanguage(lang)) {
+// KaTeX math: $inline$, $$display$$ and bare \begin{...} environments.
+// Formulas of one document share a macro table, so \newcommand and \gdef
+// carry over to later formulas; it is reset before every render.
+const mathMacros: Record<string, string> = {};
+
+const mathRules = [
+  "math_inline",
+  "math_inline_block",
+  "math_inline_bare_block",
+  "math_block",
+];
+
+// Build the markdown-it renderer with highlight.js syntax highlighting, our
+// own rules and the plugins of other extensions. It is rebuilt when plugins
+// are added or removed, since markdown-it can't unload a plugin.
+function createMarkdownIt(): MarkdownIt {
+  let md = new MarkdownIt({
+    html: true,
+    linkify: true,
+    typographer: true,
+    highlight: function (str: string, lang: string) {
+      if (lang && hljs.getLanguage(lang)) {
+        try {
+          const highlighted = hljs.highlight(str, {
+            language: lang,
+            ignoreIllegals: true,
+          }).value;
+          return `<pre><code class="hljs language-${lang}">${highlighted}</code></pre>`;
+        } catch (__) {
+          // Fall through to default
+        }
+      }
+      // Use auto-detection for unknown languages or plain code
       try {
-        const highlighted = hljs.highlight(str, {
-          language: lang,
-          ignoreIllegals: true,
-        }).value;
-        return `<pre><code class="hljs language-${lang}">${highlighted}</code></pre>`;
+        const highlighted = hljs.highlightAuto(str).value;
+        return `<pre><code class="hljs">${highlighted}</code></pre>`;
       } catch (__) {
-        // Fall through to default
+        return `<pre><code class="hljs">${escapeHtml(str)}</code></pre>`;
       }
-    }
-    // Use auto-detection for unknown languages or plain code
-    try {
-      const highlighted = hljs.highlightAuto(str).value;
-      return `<pre><code class="hljs">${highlighted}</code></pre>`;
-    } catch (__) {
-      return `<pre><code class="hljs">${escapeHtml(str)}</code></pre>`;
-    }
-  },
-});
-
-// Add IDs to headings for anchor links
-const defaultHeadingRender =
-  md.renderer.rules.heading_open ||
-  function (tokens: any[], idx: number, options: any, env: any, self: any) {
-    return self.renderToken(tokens, idx, options);
+    },
+  });
+
+  md.use(frontMatterPlugin);
+
+  const katexOptions: MarkdownKatexOptions & KatexOptions = {
+    enableBareBlocks: true,
+    // Invalid formulas are shown as their source, with KaTeX's message as
+    // the tooltip. Throwing would make the plugin log every error on every
+    // re-render.
+    throwOnError: false,
+    errorColor: "#f48771",
+    strict: "ignore",
+    macros: mathMacros,
+    globalGroup: true,
   };
+  md.use(markdownItKatex, katexOptions);
 
-const slugCounts = new Map<string, number>();
-
-md.renderer.rules.heading_open = function (
-  tokens: any[],
-  idx: number,
-  options: any,
-  env: any,
-  self: any
-) {
-  const token = tokens[idx];
-  const nextToken = tokens[idx + 1];
-
-  if (nextToken && nextToken.type === "inline" && nextToken.content) {
-    const text = nextToken.content;
-    let slug = text
-      .toLowerCase()
-      .replace(/[^\w\s-]/g, "")
-      .replace(/\s+/g, "-")
-      .replace(/-+/g, "-")
-      .trim();
-
-    // Handle duplicate slugs
-    const baseSlug = slug;
-    const count = slugCounts.get(baseSlug) || 0;
-    if (count > 0) {
-      slug = `${baseSlug}-${count}`;
+  // A failing plugin is skipped so the preview still renders. Like in VS
+  // Code's preview, a plugin may return another instance to use, e.g. one
+  // that wraps the renderer; it can come from the plugin's own markdown-it
+  // copy, so it is recognized by its methods.
+  for (const plugin of getPreviewContributions().plugins) {
+    try {
+      const result: unknown = plugin.extendMarkdownIt(md);
+      if (
+        result &&
+        typeof (result as MarkdownIt).parse === "function" &&
+        typeof (result as MarkdownIt).renderer?.render === "function"
+      ) {
+        md = result as MarkdownIt;
+      }
+    } catch (error) {
+      console.error(`markdown-it plugin of ${plugin.source} failed:`, error);
     }
-    slugCounts.set(baseSlug, count + 1);
-
-    token.attrSet("id", slug);
   }
 
-  return defaultHeadingRender(tokens, idx, options, env, self);
-};
+  // Collect headings after plugins ran, so ids set by an anchor plugin are
+  // replaced with the ones the TOC links to
+  md.core.ruler.push("collect_headings", collectHeadings);
 
-// Reset slug counts before each render
-function resetSlugCounts() {
-  slugCounts.clear();
+  // Render ```mermaid fences as placeholders that the webview turns into
+  // diagrams; other fences keep the renderer a plugin may have installed
+  const defaultFenceRender = md.renderer.rules.fence!;
+
+  md.renderer.rules.fence = function (tokens, idx, options, env, self) {
+    const token = tokens[idx];
+    const lang = token.info.trim().split(/\s+/)[0];
+
+    if (lang === "mermaid") {
+      return `<div class="mermaid-diagram"${self.renderAttrs(token)}><pre class="mermaid-source">${escapeHtml(token.content)}</pre></div>\n`;
+    }
+
+    return defaultFenceRender(tokens, idx, options, env, self);
+  };
+
+  return md;
 }
 
-// Helper function to escape HTML
-function escapeHtml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
+let md = createMarkdownIt();
+
+// Apply the math settings before rendering a document
+function configureMath(config: vscode.WorkspaceConfiguration): void {
+  if (config.get<boolean>("math.enabled", true)) {
+    md.enable(mathRules, true);
+  } else {
+    md.disable(mathRules, true);
+  }
+
+  for (const name of Object.keys(mathMacros)) {
+    delete mathMacros[name];
+  }
+  Object.assign(
+    mathMacros,
+    config.get<Record<string, string>>("math.macros", {})
+  );
 }
 
 // Array to keep track of all active preview panels
@@ -194,13 +204,117 @@ const activePanels: vscode.WebviewPanel[] = [];
 // Map to track which panel is associated with which document
 const panelDocumentMap = new Map<vscode.WebviewPanel, vscode.Uri>();
 
-export function activate(context: vscode.ExtensionContext) {
+// Panels that switch to whichever Markdown editor becomes active;
+// all other panels stay pinned to their document
+const followingPanels = new Set<vscode.WebviewPanel>();
+
+// Pairs of panels whose scrolling is linked for side-by-side comparison,
+// stored in both directions
+const linkedPanels = new Map<vscode.WebviewPanel, vscode.WebviewPanel>();
+
+// Panels showing a rendered diff, with the text their document is compared to
+const panelDiffBases = new Map<vscode.WebviewPanel, DiffBase>();
+
+// Pending debounced updates per panel
+const pendingUpdates = new Map<vscode.WebviewPanel, NodeJS.Timeout>();
+
+// Delay before re-rendering after the last edit in a burst
+const LIVE_UPDATE_DELAY_MS = 150;
+
+// Watchers for local images and media referenced by each panel's document
+const panelResourceWatchers = new Map<
+  vscode.WebviewPanel,
+  Map<string, vscode.FileSystemWatcher>
+>();
+
+// Watchers on each panel's own file, for files previewed without an editor
+const panelDocumentWatchers = new Map<
+  vscode.WebviewPanel,
+  vscode.FileSystemWatcher
+>();
+
+// Watchers on the custom stylesheets of each panel
+const panelStyleWatchers = new Map<
+  vscode.WebviewPanel,
+  vscode.FileSystemWatcher[]
+>();
+
+// Bumped when a referenced resource changes on disk, to bust webview caches
+const resourceVersions = new Map<string, number>();
+
+// Time until which editor scroll events are not echoed back to a panel
+const editorScrollSuppression = new Map<vscode.WebviewPanel, number>();
+
+// How long a preview-driven editor scroll suppresses the reverse sync
+const SCROLL_SYNC_SUPPRESS_MS = 150;
+
+// Broken links of previewed documents, shown in the Problems panel
+let linkDiagnostics: vscode.DiagnosticCollection | undefined;
+
+// State persisted by the webview through setState and handed back on restore
+interface PreviewPanelState {
+  source?: string;
+  line?: number;
+  tocHidden?: boolean;
+  tocCollapsed?: string[];
+  following?: boolean;
+  // View settings changed in this panel; unset ones use the configuration
+  fontSize?: number;
+  tocPosition?: string;
+  tocWidth?: number;
+  themeOverride?: "light" | "dark";
+  tocExpanded?: boolean;
+  // Set for diff panels, to load the base again on restore
+  diff?: { label: string; source: DiffBaseSource };
+}
+
+interface RenderedDocument {
+  blocks: string[];
+  lines: number[];
+  tocHtml: string;
+  title?: string;
+}
+
+// Options read by our markdown-it rules, and what they collect while parsing
+interface RenderEnv {
+  slugStrategy: SlugStrategy;
+  frontMatterDisplay: FrontMatterDisplay;
+  headings?: MarkdownHeading[];
+  frontMatter?: FrontMatter;
+}
+
+// Earlier version of a document that a diff panel compares against
+interface DiffBase {
+  label: string;
+  text: string;
+  source: DiffBaseSource;
+}
+
+// Where a diff base comes from: a git revision of the document, or another file
+type DiffBaseSource =
+  { kind: "revision"; revision: string } | { kind: "file"; uri: string };
+
+// Maps a referenced local file to the URL used in the rendered HTML
+type ResourceUrlResolver = (uri: vscode.Uri, tag: string) => string;
+
+export function activate(
+  context: vscode.ExtensionContext
+): MarkdownMultiPreviewApi {
   console.log("Markdown Multi Preview is now active!");
 
   // Register the command to open a new preview panel
   const disposable = vscode.commands.registerCommand(
     "markdown-multi-preview.openPreview",
-    () => {
+    (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+      // From the Explorer or editor title menu: one panel per selected file
+      if (uri instanceof vscode.Uri) {
+        const uris =
+          Array.isArray(selectedUris) && selectedUris.length > 0
+            ? selectedUris
+            : [uri];
+        return openPreviewsForUris(uris, context);
+      }
+
       const editor = vscode.window.activeTextEditor;
 
       if (!editor) {
@@ -224,6 +338,147 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Export the active preview (or active Markdown editor) to HTML or PDF
+  const exportHtmlDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.exportHtml",
+    () => exportActiveDocument("html", context)
+  );
+  const exportPdfDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.exportPdf",
+    () => exportActiveDocument("pdf", context)
+  );
+
+  // Preview dashboards: a grid of files, and named layouts to reopen it
+  const openGridDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.openGrid",
+    (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) =>
+      openPreviewGrid(context, uri, selectedUris)
+  );
+  const saveLayoutDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.saveLayout",
+    () => savePreviewLayout(context)
+  );
+  const openLayoutDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.openLayout",
+    () => openPreviewLayout(context)
+  );
+  const deleteLayoutDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.deleteLayout",
+    () => deletePreviewLayout(context)
+  );
+
+  // Rendered diff against the committed version or against another file
+  const diffWithHeadDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.diffWithHead",
+    (uri?: vscode.Uri) => openDiffWithHead(context, uri)
+  );
+  const diffWithFileDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.diffWithFile",
+    (uri?: vscode.Uri) => openDiffWithFile(context, uri)
+  );
+
+  // Compare two previews: scrolling one scrolls the other section by section
+  const linkPanelsDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.linkPanels",
+    () => pickPanelsToLink()
+  );
+  const unlinkPanelsDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.unlinkPanels",
+    () => {
+      const panel = activePanels.find((p) => p.active);
+      if (!panel || !linkedPanels.has(panel)) {
+        vscode.window.showWarningMessage(
+          "Focus a linked preview to unlink it."
+        );
+        return;
+      }
+      unlinkPanel(panel);
+    }
+  );
+
+  // Find in the focused preview; webviews don't get the editor's find widget
+  const findDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.find",
+    () => postFindAction("open")
+  );
+  const findNextDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.findNext",
+    () => postFindAction("next")
+  );
+  const findPreviousDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.findPrevious",
+    () => postFindAction("previous")
+  );
+
+  // Drop the focused preview's own font size, TOC layout and theme
+  const resetViewDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.resetView",
+    () => {
+      const panel = activePanels.find((p) => p.active);
+      if (!panel) {
+        vscode.window.showWarningMessage(
+          "Focus a Markdown preview to reset its view."
+        );
+        return;
+      }
+      panel.webview.postMessage({ type: "resetView" });
+    }
+  );
+
+  // Switch the focused preview between pinned and following the active editor
+  const toggleFollowDisposable = vscode.commands.registerCommand(
+    "markdown-multi-preview.toggleFollow",
+    () => {
+      const panel = activePanels.find((p) => p.active);
+      if (!panel) {
+        vscode.window.showWarningMessage(
+          "Focus a Markdown preview to pin or unpin it."
+        );
+        return;
+      }
+      setPanelFollowing(panel, !followingPanels.has(panel), context);
+    }
+  );
+
+  // Restore preview panels after a window reload
+  const serializerDisposable = vscode.window.registerWebviewPanelSerializer(
+    "markdownMultiPreview",
+    {
+      async deserializeWebviewPanel(
+        panel: vscode.WebviewPanel,
+        state: PreviewPanelState | undefined
+      ) {
+        if (!state || !state.source) {
+          panel.dispose();
+          return;
+        }
+
+        try {
+          const document = await vscode.workspace.openTextDocument(
+            vscode.Uri.parse(state.source)
+          );
+          // A diff panel whose base can't be loaded again is not restored
+          const diffBase =
+            state.diff &&
+            (await loadDiffBase(document, state.diff.label, state.diff.source));
+          initializePreviewPanel(panel, document, context);
+          if (diffBase) {
+            panelDiffBases.set(panel, diffBase);
+          }
+          if (state.following) {
+            setPanelFollowing(panel, true, context);
+          }
+        } catch (error) {
+          console.error(
+            `Failed to restore preview for ${state.source}:`,
+            error
+          );
+          panel.dispose();
+        }
+      },
+    }
+  );
+
   // Listen for text document changes to update previews live
   const changeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
     const changedDocument = event.document;
@@ -232,26 +487,138 @@ export function activate(context: vscode.ExtensionContext) {
     for (const panel of activePanels) {
       const panelUri = panelDocumentMap.get(panel);
       if (panelUri && panelUri.toString() === changedDocument.uri.toString()) {
-        updatePanelContent(panel, changedDocument);
+        scheduleUpdate(panel, changedDocument);
+      }
+    }
+  });
+
+  // Link targets may have appeared, disappeared or changed their headings
+  linkDiagnostics = vscode.languages.createDiagnosticCollection(
+    "markdownMultiPreview"
+  );
+  const linkTargetDisposables = [
+    vscode.workspace.onDidCreateFiles(revalidateAllPanelLinks),
+    vscode.workspace.onDidDeleteFiles(revalidateAllPanelLinks),
+    vscode.workspace.onDidRenameFiles(revalidateAllPanelLinks),
+    vscode.workspace.onDidSaveTextDocument((savedDocument) => {
+      if (savedDocument.languageId === "markdown") {
+        revalidateAllPanelLinks();
+      }
+    }),
+  ];
+
+  // Following panels switch to the newly active Markdown editor
+  const activeEditorDisposable = vscode.window.onDidChangeActiveTextEditor(
+    (editor) => {
+      if (!editor || editor.document.languageId !== "markdown") {
+        return;
       }
+      for (const panel of followingPanels) {
+        switchPanelDocument(panel, editor.document, context);
+      }
+    }
+  );
+
+  // Scroll each preview along with the editors showing its document
+  const visibleRangesDisposable =
+    vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+      const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+      if (!config.get<boolean>("scrollPreviewWithEditor", true)) {
+        return;
+      }
+
+      const editorUri = event.textEditor.document.uri.toString();
+      const range = event.visibleRanges[0];
+      if (!range) {
+        return;
+      }
+
+      for (const panel of activePanels) {
+        const panelUri = panelDocumentMap.get(panel);
+        if (!panelUri || panelUri.toString() !== editorUri) {
+          continue;
+        }
+        // Skip the panel whose own scroll moved this editor
+        const suppressedUntil = editorScrollSuppression.get(panel) || 0;
+        if (Date.now() < suppressedUntil) {
+          continue;
+        }
+        panel.webview.postMessage({
+          type: "scrollToLine",
+          line: range.start.line,
+        });
+      }
+    });
+
+  // Previews follow the VS Code color theme
+  const colorThemeDisposable = vscode.window.onDidChangeActiveColorTheme(() => {
+    const kind = getColorThemeKind();
+    for (const panel of activePanels) {
+      panel.webview.postMessage({ type: "colorTheme", kind });
     }
   });
 
+  // markdown-it plugins, styles and scripts of other extensions and of API
+  // callers; open panels are reloaded when they change
+  loadExtensionContributions();
+  const extensionsChangeDisposable = vscode.extensions.onDidChange(() =>
+    loadExtensionContributions()
+  );
+  const contributionsDisposable = onDidChangePreviewContributions(() =>
+    reloadPreviewPanels(context)
+  );
+
+  // Custom scripts start running once the workspace is trusted
+  const trustDisposable = vscode.workspace.onDidGrantWorkspaceTrust(() =>
+    reloadPreviewPanels(context)
+  );
+
   // Listen for configuration changes
   const configChangeDisposable = vscode.workspace.onDidChangeConfiguration(
     (event) => {
-      if (event.affectsConfiguration("markdownMultiPreview.fontSize")) {
-        // Update all panels when font size changes
+      if (
+        [...viewSettingKeys, "controlsUpdateSettings"].some((key) =>
+          event.affectsConfiguration(`markdownMultiPreview.${key}`)
+        )
+      ) {
+        // Panels apply new defaults except where they have their own value
+        const defaults = getViewDefaults();
+        for (const panel of activePanels) {
+          panel.webview.postMessage({ type: "viewDefaults", defaults });
+        }
+      }
+
+      // New files can need new resource roots, so pages are reloaded
+      if (
+        event.affectsConfiguration("markdownMultiPreview.styles") ||
+        event.affectsConfiguration("markdownMultiPreview.scripts")
+      ) {
+        reloadPreviewPanels(context);
+      }
+
+      if (event.affectsConfiguration("markdownMultiPreview.codeTheme")) {
+        for (const panel of activePanels) {
+          panel.webview.postMessage({
+            type: "codeThemes",
+            urls: getCodeThemeUrls(panel.webview, context.extensionUri),
+          });
+        }
+      }
+
+      if (
+        event.affectsConfiguration("markdownMultiPreview.rawHtml") ||
+        event.affectsConfiguration("markdownMultiPreview.slugStrategy") ||
+        event.affectsConfiguration("markdownMultiPreview.math") ||
+        event.affectsConfiguration("markdownMultiPreview.frontMatter") ||
+        event.affectsConfiguration("markdownMultiPreview.validateLinks")
+      ) {
+        // Re-render all panels when rendering options change
         for (const panel of activePanels) {
-          const uri = panelDocumentMap.get(panel);
-          if (uri) {
-            const doc = vscode.workspace.textDocuments.find(
-              (d) => d.uri.toString() === uri.toString()
-            );
+          getPanelDocument(panel).then((doc) => {
             if (doc) {
               updatePanelContent(panel, doc);
             }
-          }
+          });
         }
       }
     }
@@ -259,37 +626,258 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     disposable,
+    exportHtmlDisposable,
+    exportPdfDisposable,
+    toggleFollowDisposable,
+    diffWithHeadDisposable,
+    diffWithFileDisposable,
+    linkPanelsDisposable,
+    unlinkPanelsDisposable,
+    openGridDisposable,
+    saveLayoutDisposable,
+    openLayoutDisposable,
+    deleteLayoutDisposable,
+    findDisposable,
+    findNextDisposable,
+    findPreviousDisposable,
+    resetViewDisposable,
+    serializerDisposable,
     changeDisposable,
+    linkDiagnostics,
+    ...linkTargetDisposables,
+    activeEditorDisposable,
+    visibleRangesDisposable,
+    colorThemeDisposable,
+    extensionsChangeDisposable,
+    contributionsDisposable,
+    trustDisposable,
     configChangeDisposable
   );
+
+  return createPreviewApi();
+}
+
+// Rebuild the renderer and reload every panel's page, so changed plugins,
+// styles and scripts take effect. Panels keep their state and scroll position.
+async function reloadPreviewPanels(
+  context: vscode.ExtensionContext
+): Promise<void> {
+  md = createMarkdownIt();
+  for (const panel of activePanels) {
+    const document = await getPanelDocument(panel);
+    // The panel may have been closed while its document was opened
+    if (!document || !activePanels.includes(panel)) {
+      continue;
+    }
+    panel.webview.options = {
+      ...panel.webview.options,
+      localResourceRoots: getPanelResourceRoots(document, context.extensionUri),
+    };
+    panel.webview.html = getWebviewContent(
+      panel.webview,
+      context.extensionUri,
+      document,
+      getViewDefaults()
+    );
+    watchCustomStyles(panel, document);
+  }
+}
+
+// Forward a find command to the focused preview's find bar
+function postFindAction(action: "open" | "next" | "previous") {
+  const panel = activePanels.find((p) => p.active);
+  if (!panel) {
+    vscode.window.showWarningMessage("Focus a Markdown preview to search it.");
+    return;
+  }
+  panel.webview.postMessage({ type: "find", action });
 }
 
 function createPreviewPanel(
   document: vscode.TextDocument,
-  context: vscode.ExtensionContext
+  context: vscode.ExtensionContext,
+  viewColumn?: vscode.ViewColumn
 ): vscode.WebviewPanel {
-  const fileName =
-    document.fileName.split("/").pop() ||
-    document.fileName.split("\\").pop() ||
-    "Markdown";
+  const fileName = getFileName(document);
 
-  // Create a new webview panel in the active column (same tab area)
+  // Create a new webview panel in the active column (same tab area),
+  // or in a given grid cell without taking focus
   const panel = vscode.window.createWebviewPanel(
     "markdownMultiPreview",
     `Preview: ${fileName}`,
-    vscode.ViewColumn.Active,
+    viewColumn ? { viewColumn, preserveFocus: true } : vscode.ViewColumn.Active,
     {
       enableScripts: true,
       retainContextWhenHidden: true,
+      localResourceRoots: getPanelResourceRoots(document, context.extensionUri),
+    }
+  );
+
+  initializePreviewPanel(panel, document, context);
+
+  return panel;
+}
+
+function getFileName(document: vscode.TextDocument): string {
+  return (
+    document.fileName.split("/").pop() ||
+    document.fileName.split("\\").pop() ||
+    "Markdown"
+  );
+}
+
+// Open a preview for each Markdown file, without showing it in an editor
+async function openPreviewsForUris(
+  uris: vscode.Uri[],
+  context: vscode.ExtensionContext
+): Promise<void> {
+  for (const uri of uris) {
+    const name = uri.path.split("/").pop() || uri.toString();
+    let document: vscode.TextDocument;
+    try {
+      document = await vscode.workspace.openTextDocument(uri);
+    } catch (error) {
+      vscode.window.showWarningMessage(`Could not open ${name}.`);
+      continue;
+    }
+
+    if (document.languageId !== "markdown") {
+      vscode.window.showWarningMessage(`${name} is not a Markdown file.`);
+      continue;
     }
+    createPreviewPanel(document, context);
+  }
+}
+
+// The document a panel is currently showing. Files previewed without an
+// editor may have been closed by VS Code, so they are read again from disk.
+async function getPanelDocument(
+  panel: vscode.WebviewPanel
+): Promise<vscode.TextDocument | undefined> {
+  const uri = panelDocumentMap.get(panel);
+  if (!uri) {
+    return undefined;
+  }
+
+  const openDocument = vscode.workspace.textDocuments.find(
+    (d) => d.uri.toString() === uri.toString()
   );
+  if (openDocument) {
+    return openDocument;
+  }
+  try {
+    return await vscode.workspace.openTextDocument(uri);
+  } catch (__) {
+    return undefined;
+  }
+}
 
+// Wire a new or restored panel to its document and load the page shell
+function initializePreviewPanel(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument,
+  context: vscode.ExtensionContext
+): void {
   // Add to active panels array
   activePanels.push(panel);
   panelDocumentMap.set(panel, document.uri);
+  watchPanelDocument(panel, document.uri);
 
-  // Set initial content
-  updatePanelContent(panel, document);
+  // Restored panels keep their old options, so refresh the resource roots
+  panel.webview.options = {
+    ...panel.webview.options,
+    localResourceRoots: getPanelResourceRoots(document, context.extensionUri),
+  };
+
+  // Load the page shell once; content is sent over postMessage when ready
+  panel.webview.html = getWebviewContent(
+    panel.webview,
+    context.extensionUri,
+    document,
+    getViewDefaults()
+  );
+  watchCustomStyles(panel, document);
+
+  panel.webview.onDidReceiveMessage(
+    async (message) => {
+      switch (message.type) {
+        case "toggleFollow":
+          setPanelFollowing(panel, !followingPanels.has(panel), context);
+          return;
+        case "linkedScroll":
+          linkedPanels.get(panel)?.webview.postMessage({
+            type: "scrollToSection",
+            section: message.section,
+          });
+          return;
+        case "unlink":
+          unlinkPanel(panel);
+          return;
+        case "updateSetting":
+          updateViewSetting(message.key, message.value);
+          return;
+      }
+
+      // Following panels change documents, so look up the current one
+      const document = await getPanelDocument(panel);
+      if (!document) {
+        return;
+      }
+
+      switch (message.type) {
+        case "ready":
+          updatePanelContent(panel, document);
+          panel.webview.postMessage({
+            type: "following",
+            following: followingPanels.has(panel),
+          });
+          // A restored panel scrolls back to its own saved position
+          if (!message.restoringScroll) {
+            syncPreviewToEditor(panel, document);
+          }
+          break;
+        case "revealLine":
+          revealLineInEditors(panel, document, message.line);
+          break;
+        case "editSource": {
+          const config = vscode.workspace.getConfiguration(
+            "markdownMultiPreview"
+          );
+          const clickToEdit = config.get<string>("clickToEdit", "doubleClick");
+          if (
+            (clickToEdit === "click" && message.trigger === "click") ||
+            (clickToEdit === "doubleClick" && message.trigger === "dblclick")
+          ) {
+            selectSourceLine(panel, document, message.line, true);
+          }
+          break;
+        }
+        case "tocNavigate": {
+          const config = vscode.workspace.getConfiguration(
+            "markdownMultiPreview"
+          );
+          if (config.get<boolean>("tocClickMovesCursor", false)) {
+            selectSourceLine(panel, document, message.line, false);
+          }
+          break;
+        }
+        case "openLink":
+          openLocalLink(document, message.href);
+          break;
+        case "export": {
+          const view = getExportView(message.view);
+          if (message.format === "html" || message.format === "pdf") {
+            exportDocument(document, message.format, view, context);
+          } else {
+            pickExportFormat(document, view, context);
+          }
+          break;
+        }
+      }
+    },
+    null,
+    context.subscriptions
+  );
 
   // Handle panel disposal
   panel.onDidDispose(
@@ -298,1070 +886,4096 @@ function createPreviewPanel(
       if (index > -1) {
         activePanels.splice(index, 1);
       }
+      const uri = panelDocumentMap.get(panel);
       panelDocumentMap.delete(panel);
+      if (uri) {
+        clearLinkDiagnostics(uri);
+      }
+      followingPanels.delete(panel);
+      panelDiffBases.delete(panel);
+      // A disposed webview can't receive messages, so only tell the partner
+      const partner = linkedPanels.get(panel);
+      if (partner) {
+        linkedPanels.delete(panel);
+        linkedPanels.delete(partner);
+        partner.webview.postMessage({ type: "linked", linked: false });
+      }
+      editorScrollSuppression.delete(panel);
+      cancelScheduledUpdate(panel);
+      disposeResourceWatchers(panel);
+      disposeCustomStyleWatchers(panel);
+      panelDocumentWatchers.get(panel)?.dispose();
+      panelDocumentWatchers.delete(panel);
     },
     null,
     context.subscriptions
   );
+}
 
-  return panel;
+// Re-render from disk when the previewed file changes outside an editor.
+// Documents VS Code still has open are reloaded by VS Code itself and
+// arrive through onDidChangeTextDocument instead.
+function watchPanelDocument(panel: vscode.WebviewPanel, uri: vscode.Uri): void {
+  panelDocumentWatchers.get(panel)?.dispose();
+  panelDocumentWatchers.delete(panel);
+  if (uri.scheme !== "file") {
+    return;
+  }
+
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(
+      vscode.Uri.joinPath(uri, ".."),
+      uri.path.split("/").pop() || ""
+    )
+  );
+  const refresh = () => {
+    const isOpen = vscode.workspace.textDocuments.some(
+      (d) => d.uri.toString() === uri.toString()
+    );
+    if (isOpen) {
+      return;
+    }
+    vscode.workspace.openTextDocument(uri).then(
+      (document) => {
+        if (panelDocumentMap.get(panel)?.toString() === uri.toString()) {
+          scheduleUpdate(panel, document);
+        }
+      },
+      () => undefined
+    );
+  };
+  watcher.onDidChange(refresh);
+  watcher.onDidCreate(refresh);
+  panelDocumentWatchers.set(panel, watcher);
 }
 
-function updatePanelContent(
+// Pin a panel to its document, or let it follow the active Markdown editor
+function setPanelFollowing(
   panel: vscode.WebviewPanel,
-  document: vscode.TextDocument
+  following: boolean,
+  context: vscode.ExtensionContext
 ): void {
-  const markdownContent = document.getText();
-
-  // Reset slug counts before rendering
-  resetSlugCounts();
+  if (following) {
+    followingPanels.add(panel);
+  } else {
+    followingPanels.delete(panel);
+  }
+  panel.webview.postMessage({ type: "following", following });
 
-  const htmlContent = md.render(markdownContent);
+  // Catch up with the editor that is active right now, if any
+  const editor = vscode.window.activeTextEditor;
+  if (following && editor && editor.document.languageId === "markdown") {
+    switchPanelDocument(panel, editor.document, context);
+  }
+}
 
-  // Parse headings for TOC
-  const headings = parseHeadings(markdownContent);
-  const tocHtml = generateTocHtml(headings);
+// Point a following panel at another document and re-render it
+function switchPanelDocument(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument,
+  context: vscode.ExtensionContext
+): void {
+  const currentUri = panelDocumentMap.get(panel);
+  if (currentUri && currentUri.toString() === document.uri.toString()) {
+    return;
+  }
 
-  // Get font size from configuration
-  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
-  const fontSize = config.get<number>("fontSize", 16);
-  const tocPosition = config.get<string>("tocPosition", "right");
+  panelDocumentMap.set(panel, document.uri);
+  if (currentUri) {
+    clearLinkDiagnostics(currentUri);
+  }
+  watchPanelDocument(panel, document.uri);
+  // The diff base belongs to the previous document
+  panelDiffBases.delete(panel);
+  cancelScheduledUpdate(panel);
+  // Watchers refresh the document they were created for
+  disposeResourceWatchers(panel);
+  panel.webview.options = {
+    ...panel.webview.options,
+    localResourceRoots: getPanelResourceRoots(document, context.extensionUri),
+  };
+  // Relative custom styles may resolve against another workspace folder
+  watchCustomStyles(panel, document);
+  panel.webview.postMessage({
+    type: "customStyles",
+    urls: getCustomStyleUrls(panel.webview, document),
+  });
 
-  panel.webview.html = getWebviewContent(
-    htmlContent,
-    tocHtml,
-    fontSize,
-    tocPosition
-  );
+  updatePanelContent(panel, document);
+  syncPreviewToEditor(panel, document);
 }
 
-function getWebviewContent(
-  renderedHtml: string,
-  tocHtml: string,
-  fontSize: number,
-  tocPosition: string
+// Ask which two previews to link, starting from the focused one if any
+async function pickPanelsToLink(): Promise<void> {
+  if (activePanels.length < 2) {
+    vscode.window.showWarningMessage(
+      "Open at least two previews to compare them."
+    );
+    return;
+  }
+
+  const first =
+    activePanels.find((p) => p.active) ||
+    (await pickPanel(activePanels, "First preview to compare"));
+  if (!first) {
+    return;
+  }
+  const second = await pickPanel(
+    activePanels.filter((p) => p !== first),
+    `Preview to compare with ${first.title}`
+  );
+  if (second) {
+    linkPanels(first, second);
+  }
+}
+
+function pickPanel(
+  panels: vscode.WebviewPanel[],
+  placeHolder: string
+): Thenable<vscode.WebviewPanel | undefined> {
+  const items = panels.map((panel) => {
+    const uri = panelDocumentMap.get(panel);
+    return {
+      label: panel.title,
+      description: uri ? vscode.workspace.asRelativePath(uri) : undefined,
+      panel,
+    };
+  });
+  return vscode.window
+    .showQuickPick(items, { placeHolder })
+    .then((item) => item?.panel);
+}
+
+// Link two panels, replacing any links they had before. The first panel
+// leads, so the second jumps to the section the first is showing.
+function linkPanels(
+  first: vscode.WebviewPanel,
+  second: vscode.WebviewPanel
+): void {
+  unlinkPanel(first);
+  unlinkPanel(second);
+  linkedPanels.set(first, second);
+  linkedPanels.set(second, first);
+
+  first.webview.postMessage({
+    type: "linked",
+    linked: true,
+    partner: second.title,
+    lead: true,
+  });
+  second.webview.postMessage({
+    type: "linked",
+    linked: true,
+    partner: first.title,
+    lead: false,
+  });
+}
+
+function unlinkPanel(panel: vscode.WebviewPanel): void {
+  const partner = linkedPanels.get(panel);
+  if (!partner) {
+    return;
+  }
+
+  linkedPanels.delete(panel);
+  linkedPanels.delete(partner);
+  panel.webview.postMessage({ type: "linked", linked: false });
+  partner.webview.postMessage({ type: "linked", linked: false });
+}
+
+// Parse Markdown text with the current rendering settings
+function parseMarkdown(text: string): {
+  tokens: MarkdownIt.Token[];
+  env: RenderEnv;
+} {
+  // Raw HTML is escaped as text when disabled, and sanitized by default
+  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+  const rawHtml = config.get<RawHtmlMode>("rawHtml", "sanitize");
+  md.set({ html: rawHtml !== "disable" });
+  configureMath(config);
+
+  const env: RenderEnv = {
+    slugStrategy: config.get<SlugStrategy>("slugStrategy", "github"),
+    frontMatterDisplay: config.get<FrontMatterDisplay>("frontMatter", "table"),
+  };
+  return { tokens: md.parse(text, env), env };
+}
+
+// Parse Markdown text and render each top-level block on its own
+function renderMarkdownBlocks(
+  text: string,
+  document: vscode.TextDocument,
+  resolveResource: ResourceUrlResolver
+): { blocks: DiffBlock[]; env: RenderEnv } {
+  const rawHtml = vscode.workspace
+    .getConfiguration("markdownMultiPreview")
+    .get<RawHtmlMode>("rawHtml", "sanitize");
+  const { tokens, env } = parseMarkdown(text);
+  const blocks: DiffBlock[] = [];
+
+  for (const blockTokens of splitTopLevelBlocks(tokens)) {
+    const startLine = annotateSourceLines(
+      blockTokens,
+      blocks.length > 0 ? blocks[blocks.length - 1].line : 0
+    );
+    let html = md.renderer.render(blockTokens, md.options, env);
+    if (rawHtml === "sanitize" && containsRawHtml(blockTokens)) {
+      html = sanitizeRenderedHtml(html);
+    }
+    blocks.push({
+      html: rewriteResourceUrls(html, document, resolveResource),
+      line: startLine,
+      kind: `${blockTokens[0].type}:${blockTokens[0].tag}`,
+    });
+  }
+
+  return { blocks, env };
+}
+
+// Render a document into top-level HTML blocks and its TOC markup, or into
+// a rendered diff when it is compared against an earlier version
+function renderDocument(
+  document: vscode.TextDocument,
+  resolveResource: ResourceUrlResolver,
+  diffBase?: DiffBase
+): RenderedDocument {
+  const rendered = renderMarkdownBlocks(
+    document.getText(),
+    document,
+    resolveResource
+  );
+  let blocks = rendered.blocks.map((block) => block.html);
+  let lines = rendered.blocks.map((block) => block.line);
+
+  if (diffBase) {
+    const oldBlocks = renderMarkdownBlocks(
+      diffBase.text,
+      document,
+      resolveResource
+    ).blocks;
+    const diff = diffRenderedBlocks(oldBlocks, rendered.blocks);
+    blocks = [getDiffSummaryHtml(diffBase, diff), ...diff.blocks];
+    lines = [0, ...diff.lines];
+  }
+
+  // Headings collected while parsing feed the TOC
+  const headings = buildHierarchy(rendered.env.headings || []);
+  const tocHtml = generateTocHtml(headings);
+
+  return {
+    blocks,
+    lines,
+    tocHtml,
+    title: getFrontMatterTitle(rendered.env.frontMatter),
+  };
+}
+
+// Banner above a rendered diff with the number of changed blocks
+function getDiffSummaryHtml(
+  diffBase: DiffBase,
+  diff: { added: number; removed: number; changed: number }
 ): string {
-  const isLeft = tocPosition === "left";
+  const label = escapeHtml(diffBase.label);
+  if (diff.added + diff.removed + diff.changed === 0) {
+    return `<div class="diff-summary">No changes compared to ${label}</div>\n`;
+  }
+  return `<div class="diff-summary">Compared to ${label}: <span class="diff-count-added">${diff.added} added</span>, <span class="diff-count-removed">${diff.removed} removed</span>, <span class="diff-count-changed">${diff.changed} changed</span></div>\n`;
+}
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-	<meta charset="UTF-8">
-	<meta name="viewport" content="width=device-width, initial-scale=1.0">
-	<title>Markdown Preview</title>
-	<style>
-		:root {
-			--preview-font-size: ${fontSize}px;
-			--toc-width: 280px;
-			--toc-min-width: 180px;
-			--toc-max-width: 450px;
+// Only blocks with raw HTML need sanitizing; markdown output is escaped
+function containsRawHtml(blockTokens: MarkdownIt.Token[]): boolean {
+  return blockTokens.some(
+    (token) =>
+      token.type === "html_block" ||
+      (token.children || []).some((child) => child.type === "html_inline")
+  );
+}
+
+// Tag block tokens with their source line relative to the block start, so a
+// block's HTML stays unchanged when lines are inserted above it. The webview
+// adds the block's start line back to get absolute editor lines. Blocks
+// added by plugins without a source position (e.g. footnote lists) take the
+// fallback line.
+function annotateSourceLines(
+  blockTokens: MarkdownIt.Token[],
+  fallbackLine: number
+): number {
+  const startLine = blockTokens[0].map ? blockTokens[0].map[0] : fallbackLine;
+
+  for (const token of blockTokens) {
+    if (token.map && token.nesting !== -1 && token.type !== "inline") {
+      token.attrSet("data-line-offset", String(token.map[0] - startLine));
+    }
+  }
+
+  return startLine;
+}
+
+// Send freshly rendered content to the webview, which patches only changed blocks
+function updatePanelContent(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument
+): void {
+  cancelScheduledUpdate(panel);
+
+  // Local files become webview URIs, versioned so changed files reload
+  const resources = new Map<string, vscode.Uri>();
+  const diffBase = panelDiffBases.get(panel);
+  const { blocks, lines, tocHtml, title } = renderDocument(
+    document,
+    (uri) => {
+      resources.set(uri.toString(), uri);
+      return getVersionedWebviewUri(panel.webview, uri);
+    },
+    diffBase
+  );
+  watchResources(panel, document, [...resources.values()]);
+
+  // A front matter title replaces the default panel title
+  if (diffBase) {
+    panel.title = `Diff: ${getFileName(document)} ↔ ${diffBase.label}`;
+  } else {
+    panel.title = title || `Preview: ${getFileName(document)}`;
+  }
+
+  panel.webview.postMessage({
+    type: "update",
+    source: document.uri.toString(),
+    diff: diffBase && { label: diffBase.label, source: diffBase.source },
+    blocks,
+    lines,
+    tocHtml,
+  });
+  validatePanelLinks(panel, document);
+}
+
+// Webview URI of a local file, versioned so the webview reloads changed files
+function getVersionedWebviewUri(
+  webview: vscode.Webview,
+  uri: vscode.Uri
+): string {
+  const version = resourceVersions.get(uri.toString()) || 0;
+  const webviewUri = webview.asWebviewUri(uri);
+  return (
+    version > 0 ? webviewUri.with({ query: `v=${version}` }) : webviewUri
+  ).toString();
+}
+
+// Keep one watcher per referenced file so the preview refreshes when it changes
+function watchResources(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument,
+  resources: vscode.Uri[]
+): void {
+  let watchers = panelResourceWatchers.get(panel);
+  if (!watchers) {
+    watchers = new Map();
+    panelResourceWatchers.set(panel, watchers);
+  }
+
+  const wanted = new Set(resources.map((uri) => uri.toString()));
+  for (const [key, watcher] of watchers) {
+    if (!wanted.has(key)) {
+      watcher.dispose();
+      watchers.delete(key);
+    }
+  }
+
+  for (const uri of resources) {
+    const key = uri.toString();
+    if (watchers.has(key) || uri.scheme !== "file") {
+      continue;
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(
+        vscode.Uri.joinPath(uri, ".."),
+        uri.path.split("/").pop() || ""
+      )
+    );
+    const refresh = () => {
+      resourceVersions.set(key, (resourceVersions.get(key) || 0) + 1);
+      scheduleUpdate(panel, document);
+    };
+    watcher.onDidChange(refresh);
+    watcher.onDidCreate(refresh);
+    watcher.onDidDelete(refresh);
+    watchers.set(key, watcher);
+  }
+}
+
+function disposeResourceWatchers(panel: vscode.WebviewPanel): void {
+  const watchers = panelResourceWatchers.get(panel);
+  if (watchers) {
+    for (const watcher of watchers.values()) {
+      watcher.dispose();
+    }
+    panelResourceWatchers.delete(panel);
+  }
+}
+
+// Open a relative or workspace-absolute link from the preview in VS Code
+function openLocalLink(document: vscode.TextDocument, href: string): void {
+  const uri = resolveLocalPath(document, href);
+  if (!uri) {
+    return;
+  }
+
+  vscode.commands.executeCommand("vscode.open", uri).then(undefined, () => {
+    vscode.window.showWarningMessage(`Could not open ${href}`);
+  });
+}
+
+// ========== LINK VALIDATION ==========
+
+// Broken link reported for a previewed document
+interface BrokenLink {
+  href: string;
+  message: string;
+  start: number;
+  end: number;
+}
+
+// Files whose `#fragment` links are checked against their headings
+const markdownFileRegex = /\.(md|markdown|mdown|mkdn?|mdwn)$/i;
+
+// Anchor ids of link targets, reused while the target is unchanged
+const anchorCache = new Map<string, { key: string; anchors: Set<string> }>();
+
+// Anchor ids of a Markdown file, from its open editor or from disk
+async function getFileAnchors(uri: vscode.Uri): Promise<Set<string>> {
+  const cacheKey = uri.toString();
+  const openDocument = vscode.workspace.textDocuments.find(
+    (d) => d.uri.toString() === cacheKey
+  );
+
+  let key: string;
+  let readText: () => Promise<string>;
+  if (openDocument) {
+    key = `version:${openDocument.version}`;
+    readText = async () => openDocument.getText();
+  } else {
+    const stat = await vscode.workspace.fs.stat(uri);
+    key = `mtime:${stat.mtime}`;
+    readText = async () =>
+      new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+  }
+
+  const cached = anchorCache.get(cacheKey);
+  if (cached && cached.key === key) {
+    return cached.anchors;
+  }
+  const anchors = collectAnchorIds(parseMarkdown(await readText()).tokens);
+  anchorCache.set(cacheKey, { key, anchors });
+  return anchors;
+}
+
+// Check that relative links point at existing files and that `#anchors`
+// match a heading of the target, with the same slugs as the TOC
+async function findBrokenLinks(
+  document: vscode.TextDocument
+): Promise<BrokenLink[]> {
+  const text = document.getText();
+  const { tokens } = parseMarkdown(text);
+  const ownAnchors = collectAnchorIds(tokens);
+  const fileTypes = new Map<string, Promise<vscode.FileType | undefined>>();
+  const broken: BrokenLink[] = [];
+
+  for (const link of collectLinks(tokens, text)) {
+    const target = parseLinkTarget(link.href);
+    const report = (message: string) => broken.push({ ...link, message });
+
+    if (link.href.startsWith("#")) {
+      if (target.fragment && !hasAnchor(ownAnchors, target.fragment)) {
+        report(`No heading or anchor '#${target.fragment}' in this document`);
+      }
+      continue;
+    }
+
+    const uri = resolveLocalPath(document, link.href);
+    if (!uri) {
+      continue;
+    }
+
+    const key = uri.toString();
+    if (!fileTypes.has(key)) {
+      fileTypes.set(
+        key,
+        Promise.resolve(vscode.workspace.fs.stat(uri)).then(
+          (stat) => stat.type,
+          () => undefined
+        )
+      );
+    }
+    const fileType = await fileTypes.get(key);
+    if (fileType === undefined) {
+      report(`File not found: ${target.path}`);
+      continue;
+    }
+
+    if (
+      target.fragment &&
+      fileType !== vscode.FileType.Directory &&
+      markdownFileRegex.test(uri.path)
+    ) {
+      const anchors = await getFileAnchors(uri);
+      if (!hasAnchor(anchors, target.fragment)) {
+        report(`No heading or anchor '#${target.fragment}' in ${target.path}`);
+      }
+    }
+  }
+
+  return broken;
+}
+
+// Publish a panel document's broken links to the Problems panel and
+// underline them in the preview
+async function validatePanelLinks(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument
+): Promise<void> {
+  if (!linkDiagnostics) {
+    return;
+  }
+  const enabled = vscode.workspace
+    .getConfiguration("markdownMultiPreview")
+    .get<boolean>("validateLinks", true);
+
+  const version = document.version;
+  let broken: BrokenLink[] = [];
+  if (enabled) {
+    try {
+      broken = await findBrokenLinks(document);
+    } catch (error) {
+      console.error(`Failed to validate links in ${document.uri}:`, error);
+      return;
+    }
+  }
+
+  // A newer edit or a document switch has its own validation on the way
+  const panelUri = panelDocumentMap.get(panel);
+  if (
+    document.version !== version ||
+    !panelUri ||
+    panelUri.toString() !== document.uri.toString()
+  ) {
+    return;
+  }
+
+  linkDiagnostics.set(
+    document.uri,
+    broken.map((link) => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(
+          document.positionAt(link.start),
+          document.positionAt(link.end)
+        ),
+        link.message,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = "Markdown Multi Preview";
+      return diagnostic;
+    })
+  );
+  panel.webview.postMessage({
+    type: "brokenLinks",
+    links: broken.map(({ href, message }) => ({ href, message })),
+  });
+}
+
+// Re-check every preview, e.g. after files were created, deleted or saved
+function revalidateAllPanelLinks(): void {
+  for (const panel of activePanels) {
+    getPanelDocument(panel).then((doc) => {
+      if (doc) {
+        validatePanelLinks(panel, doc);
+      }
+    });
+  }
+}
+
+// Drop the diagnostics of a document no preview shows anymore
+function clearLinkDiagnostics(uri: vscode.Uri): void {
+  const stillPreviewed = [...panelDocumentMap.values()].some(
+    (panelUri) => panelUri.toString() === uri.toString()
+  );
+  if (!stillPreviewed) {
+    linkDiagnostics?.delete(uri);
+  }
+}
+
+// ========== PREVIEW GRID AND LAYOUTS ==========
+
+// Workspace state key holding the saved layouts by name
+const LAYOUTS_STATE_KEY = "markdownMultiPreview.layouts";
+
+// Most files a glob adds to a grid
+const MAX_GRID_GLOB_FILES = 100;
+
+function getSavedLayouts(
+  context: vscode.ExtensionContext
+): Record<string, SavedPreviewLayout> {
+  return context.workspaceState.get<Record<string, SavedPreviewLayout>>(
+    LAYOUTS_STATE_KEY,
+    {}
+  );
+}
+
+// Markdown files from an Explorer selection, or from a glob typed by the user
+async function pickGridFiles(
+  uri?: vscode.Uri,
+  selectedUris?: vscode.Uri[]
+): Promise<vscode.Uri[] | undefined> {
+  if (uri instanceof vscode.Uri) {
+    return Array.isArray(selectedUris) && selectedUris.length > 0
+      ? selectedUris
+      : [uri];
+  }
+
+  const glob = await vscode.window.showInputBox({
+    prompt: "Glob pattern of the Markdown files to preview",
+    value: "**/*.md",
+  });
+  if (!glob) {
+    return undefined;
+  }
+
+  const files = await vscode.workspace.findFiles(
+    glob,
+    "**/node_modules/**",
+    MAX_GRID_GLOB_FILES
+  );
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return files;
+}
+
+// Open one preview per file, laid out in an N-column grid of editor groups
+async function openPreviewGrid(
+  context: vscode.ExtensionContext,
+  uri?: vscode.Uri,
+  selectedUris?: vscode.Uri[]
+): Promise<void> {
+  const uris = await pickGridFiles(uri, selectedUris);
+  if (!uris) {
+    return;
+  }
+
+  const documents: vscode.TextDocument[] = [];
+  for (const fileUri of uris) {
+    try {
+      const document = await vscode.workspace.openTextDocument(fileUri);
+      if (document.languageId === "markdown") {
+        documents.push(document);
+      }
+    } catch (__) {
+      // Folders and unreadable files are left out of the grid
+    }
+  }
+  if (documents.length === 0) {
+    vscode.window.showWarningMessage("No Markdown files to preview.");
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+  const columns = config.get<number>("grid.columns", 2);
+
+  // Every preview is a webview of its own, so grids of more than three
+  // rows are confirmed first
+  if (documents.length > 3 * columns) {
+    const choice = await vscode.window.showWarningMessage(
+      `Open ${documents.length} previews?`,
+      {
+        modal: true,
+        detail: `Each preview is a separate webview. A glob pattern includes at most ${MAX_GRID_GLOB_FILES} files; narrow it to preview fewer.`,
+      },
+      "Open Previews"
+    );
+    if (choice !== "Open Previews") {
+      return;
+    }
+  }
+
+  await vscode.commands.executeCommand(
+    "vscode.setEditorLayout",
+    buildGridLayout(documents.length, columns)
+  );
+
+  documents.forEach((document, index) => {
+    createPreviewPanel(
+      document,
+      context,
+      getGridViewColumn(index, documents.length, columns)
+    );
+  });
+}
+
+// Remember the editor layout and which previews sit in which column
+async function savePreviewLayout(
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const previews: SavedPreviewLayout["previews"] = [];
+  for (const panel of activePanels) {
+    const uri = panelDocumentMap.get(panel);
+    if (uri && panel.viewColumn) {
+      previews.push({ uri: uri.toString(), viewColumn: panel.viewColumn });
+    }
+  }
+  if (previews.length === 0) {
+    vscode.window.showWarningMessage("There are no open previews to save.");
+    return;
+  }
+
+  const name = await vscode.window.showInputBox({
+    prompt: "Name of the preview layout",
+    placeHolder: "e.g. Docs overview",
+    validateInput: (value) =>
+      value.trim() ? undefined : "Enter a name for the layout",
+  });
+  if (!name) {
+    return;
+  }
+
+  const editorLayout = await vscode.commands.executeCommand(
+    "vscode.getEditorLayout"
+  );
+  const layouts = getSavedLayouts(context);
+  layouts[name.trim()] = {
+    editorLayout: editorLayout as SavedPreviewLayout["editorLayout"],
+    previews,
+  };
+  await context.workspaceState.update(LAYOUTS_STATE_KEY, layouts);
+  vscode.window.showInformationMessage(
+    `Saved preview layout "${name.trim()}".`
+  );
+}
+
+// Ask for one of the saved layout names
+async function pickSavedLayout(
+  context: vscode.ExtensionContext,
+  placeHolder: string
+): Promise<string | undefined> {
+  const layouts = getSavedLayouts(context);
+  const names = Object.keys(layouts).sort();
+  if (names.length === 0) {
+    vscode.window.showInformationMessage(
+      "No preview layouts are saved in this workspace."
+    );
+    return undefined;
+  }
+
+  const choice = await vscode.window.showQuickPick(
+    names.map((name) => ({
+      label: name,
+      description: `${layouts[name].previews.length} preview(s)`,
+    })),
+    { placeHolder }
+  );
+  return choice?.label;
+}
+
+// Restore the saved editor layout and reopen its previews in their columns
+async function openPreviewLayout(
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const name = await pickSavedLayout(context, "Preview layout to open");
+  const layout = name && getSavedLayouts(context)[name];
+  if (!layout) {
+    return;
+  }
+
+  await vscode.commands.executeCommand(
+    "vscode.setEditorLayout",
+    layout.editorLayout
+  );
+  for (const preview of layout.previews) {
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.parse(preview.uri)
+      );
+      createPreviewPanel(document, context, preview.viewColumn);
+    } catch (__) {
+      vscode.window.showWarningMessage(
+        `Could not open ${vscode.Uri.parse(preview.uri).path.split("/").pop()}.`
+      );
+    }
+  }
+}
+
+async function deletePreviewLayout(
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const name = await pickSavedLayout(context, "Preview layout to delete");
+  if (!name) {
+    return;
+  }
+
+  const layouts = getSavedLayouts(context);
+  delete layouts[name];
+  await context.workspaceState.update(LAYOUTS_STATE_KEY, layouts);
+}
+
+// ========== RENDERED DIFF ==========
+
+// Document given by a menu, else the focused preview's or active editor's
+async function getDocumentToDiff(
+  uri?: vscode.Uri
+): Promise<vscode.TextDocument | undefined> {
+  let document: vscode.TextDocument | undefined;
+  try {
+    document =
+      uri instanceof vscode.Uri
+        ? await vscode.workspace.openTextDocument(uri)
+        : await getActiveMarkdownDocument();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(
+      `Could not open the file to compare: ${reason}`
+    );
+    return undefined;
+  }
+  if (!document || document.languageId !== "markdown") {
+    vscode.window.showWarningMessage(
+      "Open a Markdown file or preview to compare."
+    );
+    return undefined;
+  }
+  return document;
+}
+
+// Open a preview panel that renders the document as a diff against `base`
+function openDiffPanel(
+  document: vscode.TextDocument,
+  base: DiffBase,
+  context: vscode.ExtensionContext
+): void {
+  const panel = createPreviewPanel(document, context);
+  // Content is rendered once the webview is ready, after the base is set
+  panelDiffBases.set(panel, base);
+}
+
+// Read the text a diff compares against, for new and restored diff panels
+async function loadDiffBase(
+  document: vscode.TextDocument,
+  label: string,
+  source: DiffBaseSource
+): Promise<DiffBase> {
+  // Unsaved edits in another file are included
+  const text =
+    source.kind === "revision"
+      ? await getFileAtRevision(document.uri, source.revision)
+      : (
+          await vscode.workspace.openTextDocument(vscode.Uri.parse(source.uri))
+        ).getText();
+  return { label, text, source };
+}
+
+async function openDiffWithHead(
+  context: vscode.ExtensionContext,
+  uri?: vscode.Uri
+): Promise<void> {
+  const document = await getDocumentToDiff(uri);
+  if (!document) {
+    return;
+  }
+
+  try {
+    const base = await loadDiffBase(document, "HEAD", {
+      kind: "revision",
+      revision: "HEAD",
+    });
+    openDiffPanel(document, base, context);
+  } catch (error) {
+    vscode.window.showWarningMessage(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+async function openDiffWithFile(
+  context: vscode.ExtensionContext,
+  uri?: vscode.Uri
+): Promise<void> {
+  const document = await getDocumentToDiff(uri);
+  if (!document) {
+    return;
+  }
+
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    defaultUri: vscode.Uri.joinPath(document.uri, ".."),
+    filters: { Markdown: ["md", "markdown"] },
+    openLabel: "Compare",
+    title: `Compare ${getFileName(document)} with`,
+  });
+  if (!picked || picked.length === 0) {
+    return;
+  }
+
+  const label = vscode.workspace.asRelativePath(picked[0]);
+  try {
+    const base = await loadDiffBase(document, label, {
+      kind: "file",
+      uri: picked[0].toString(),
+    });
+    openDiffPanel(document, base, context);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Could not read ${label}: ${reason}`);
+  }
+}
+
+// ========== VIEW SETTINGS ==========
+
+// Defaults for the preview controls; each panel can override them
+interface ViewDefaults {
+  fontSize: number;
+  tocPosition: "left" | "right";
+  tocWidth: number;
+  tocVisible: boolean;
+  defaultTheme: "auto" | "light" | "dark";
+  // Where the controls save changes: the panel only, or a settings scope
+  controlsUpdateSettings: "off" | "user" | "workspace";
+}
+
+// Settings the preview controls can write
+const viewSettingKeys = [
+  "fontSize",
+  "tocPosition",
+  "tocWidth",
+  "tocVisible",
+  "defaultTheme",
+];
+
+function getViewDefaults(): ViewDefaults {
+  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+  const clamp = (value: number, min: number, max: number, fallback: number) =>
+    Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+  const defaultTheme = config.get<string>("defaultTheme", "auto");
+  const controlsUpdateSettings = config.get<string>(
+    "controlsUpdateSettings",
+    "off"
+  );
+
+  return {
+    fontSize: clamp(config.get<number>("fontSize", 16), 10, 32, 16),
+    tocPosition:
+      config.get<string>("tocPosition", "right") === "left" ? "left" : "right",
+    tocWidth: clamp(config.get<number>("tocWidth", 280), 180, 450, 280),
+    tocVisible: config.get<boolean>("tocVisible", true),
+    defaultTheme:
+      defaultTheme === "light" || defaultTheme === "dark"
+        ? defaultTheme
+        : "auto",
+    controlsUpdateSettings:
+      controlsUpdateSettings === "user" ||
+      controlsUpdateSettings === "workspace"
+        ? controlsUpdateSettings
+        : "off",
+  };
+}
+
+// Save a change made with a preview control to the chosen settings scope.
+// The new value reaches all panels through the configuration listener.
+async function updateViewSetting(key: string, value: unknown): Promise<void> {
+  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+  const scope = getViewDefaults().controlsUpdateSettings;
+  if (scope === "off" || !viewSettingKeys.includes(key)) {
+    return;
+  }
+
+  // Without a folder open there are no workspace settings to write
+  const target =
+    scope === "workspace" && vscode.workspace.workspaceFolders
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global;
+  try {
+    await config.update(key, value, target);
+  } catch (error) {
+    vscode.window.showWarningMessage(
+      `Could not update markdownMultiPreview.${key}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return;
+  }
+
+  // A value in a narrower scope wins over the one just written
+  const inspected = config.inspect(key);
+  const shadowedBy =
+    inspected?.workspaceFolderValue !== undefined
+      ? "folder"
+      : target === vscode.ConfigurationTarget.Global &&
+          inspected?.workspaceValue !== undefined
+        ? "workspace"
+        : undefined;
+  if (shadowedBy) {
+    vscode.window.showWarningMessage(
+      `markdownMultiPreview.${key} is also set in ${shadowedBy} settings, which take precedence.`
+    );
+  }
+}
+
+// ========== CUSTOM STYLES AND SCRIPTS ==========
+
+// Files listed in the styles or scripts setting: absolute paths, or paths
+// relative to the document's workspace folder. The setting is read for the
+// document, so folder settings of multi-root workspaces apply.
+function getCustomFiles(
+  setting: "styles" | "scripts",
+  document: vscode.TextDocument
+): vscode.Uri[] {
+  const paths = vscode.workspace
+    .getConfiguration("markdownMultiPreview", document.uri)
+    .get<unknown>(setting, []);
+  if (!Array.isArray(paths)) {
+    return [];
+  }
+
+  const folder =
+    vscode.workspace.getWorkspaceFolder(document.uri)?.uri ||
+    vscode.workspace.workspaceFolders?.[0]?.uri ||
+    getDocumentFolder(document);
+  return paths
+    .filter(
+      (filePath): filePath is string =>
+        typeof filePath === "string" && filePath.trim() !== ""
+    )
+    .map((filePath) =>
+      path.isAbsolute(filePath)
+        ? vscode.Uri.file(filePath)
+        : vscode.Uri.joinPath(folder, filePath)
+    );
+}
+
+// Custom scripts only run in trusted workspaces, where the workspace's own
+// settings are allowed to run code
+function getCustomScripts(document: vscode.TextDocument): vscode.Uri[] {
+  return vscode.workspace.isTrusted ? getCustomFiles("scripts", document) : [];
+}
+
+function getCustomStyleUrls(
+  webview: vscode.Webview,
+  document: vscode.TextDocument
+): string[] {
+  return getCustomFiles("styles", document).map((uri) =>
+    getVersionedWebviewUri(webview, uri)
+  );
+}
+
+// Roots a panel loads files from, including the folders of contributed and
+// custom styles and scripts
+function getPanelResourceRoots(
+  document: vscode.TextDocument,
+  extensionUri: vscode.Uri
+): vscode.Uri[] {
+  const customFolders = [
+    ...getCustomFiles("styles", document),
+    ...getCustomScripts(document),
+  ].map((uri) => vscode.Uri.joinPath(uri, ".."));
+  return getLocalResourceRoots(document, extensionUri, [
+    ...getPreviewContributions().resourceRoots,
+    ...customFolders,
+  ]);
+}
+
+// Reload a panel's custom stylesheets when they change on disk
+function watchCustomStyles(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument
+): void {
+  disposeCustomStyleWatchers(panel);
+
+  const watchers = getCustomFiles("styles", document)
+    .filter((uri) => uri.scheme === "file")
+    .map((uri) => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          vscode.Uri.joinPath(uri, ".."),
+          uri.path.split("/").pop() || ""
+        )
+      );
+      const reload = () => {
+        const key = uri.toString();
+        resourceVersions.set(key, (resourceVersions.get(key) || 0) + 1);
+        panel.webview.postMessage({
+          type: "customStyles",
+          urls: getCustomStyleUrls(panel.webview, document),
+        });
+      };
+      watcher.onDidChange(reload);
+      watcher.onDidCreate(reload);
+      watcher.onDidDelete(reload);
+      return watcher;
+    });
+  panelStyleWatchers.set(panel, watchers);
+}
+
+function disposeCustomStyleWatchers(panel: vscode.WebviewPanel): void {
+  for (const watcher of panelStyleWatchers.get(panel) || []) {
+    watcher.dispose();
+  }
+  panelStyleWatchers.delete(panel);
+}
+
+// ========== COLOR AND CODE THEMES ==========
+
+// VS Code color theme kinds, as named in the webview
+type ColorThemeKindName =
+  "light" | "dark" | "highContrast" | "highContrastLight";
+
+function getColorThemeKind(): ColorThemeKindName {
+  switch (vscode.window.activeColorTheme.kind) {
+    case vscode.ColorThemeKind.Light:
+      return "light";
+    case vscode.ColorThemeKind.HighContrast:
+      return "highContrast";
+    case vscode.ColorThemeKind.HighContrastLight:
+      return "highContrastLight";
+    default:
+      return "dark";
+  }
+}
+
+// highlight.js themes chosen for light and dark previews; "default" keeps
+// the built-in colors
+function getCodeThemes(): { light: string; dark: string } {
+  const setting = vscode.workspace
+    .getConfiguration("markdownMultiPreview")
+    .get<{ light?: unknown; dark?: unknown }>("codeTheme", {});
+  const toName = (name: unknown) =>
+    typeof name === "string" && /^[a-z0-9-]+$/.test(name) ? name : "default";
+  return { light: toName(setting.light), dark: toName(setting.dark) };
+}
+
+// Bundled stylesheet of a highlight.js theme, copied to dist by the build
+function getCodeThemeUri(
+  extensionUri: vscode.Uri,
+  name: string
+): vscode.Uri | undefined {
+  return name === "default"
+    ? undefined
+    : vscode.Uri.joinPath(
+        extensionUri,
+        "dist",
+        "highlight-styles",
+        `${name}.min.css`
+      );
+}
+
+// Webview URLs of the chosen highlight themes; null keeps the built-in colors
+function getCodeThemeUrls(
+  webview: vscode.Webview,
+  extensionUri: vscode.Uri
+): { light: string | null; dark: string | null } {
+  const themes = getCodeThemes();
+  const toUrl = (name: string) => {
+    const uri = getCodeThemeUri(extensionUri, name);
+    return uri ? webview.asWebviewUri(uri).toString() : null;
+  };
+  return { light: toUrl(themes.light), dark: toUrl(themes.dark) };
+}
+
+// ========== EXPORT ==========
+
+type ExportFormat = "html" | "pdf";
+
+// How the exported page looks, taken from the preview it is exported from
+interface ExportView {
+  theme: "light" | "dark";
+  fontSize: number;
+  tocPosition: "left" | "right";
+}
+
+// Document of the focused preview panel, else of the active Markdown editor
+async function getActiveMarkdownDocument(): Promise<
+  vscode.TextDocument | undefined
+> {
+  const activePanel = activePanels.find((panel) => panel.active);
+  if (activePanel) {
+    return getPanelDocument(activePanel);
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  if (editor && editor.document.languageId === "markdown") {
+    return editor.document;
+  }
+  return undefined;
+}
+
+async function exportActiveDocument(
+  format: ExportFormat,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const document = await getActiveMarkdownDocument();
+  if (!document) {
+    vscode.window.showWarningMessage(
+      "Open a Markdown file or preview to export."
+    );
+    return;
+  }
+
+  // A focused preview exports with its own view settings, which only its
+  // webview knows; it answers with an export message
+  const activePanel = activePanels.find((panel) => panel.active);
+  if (activePanel) {
+    activePanel.webview.postMessage({ type: "requestExport", format });
+    return;
+  }
+  return exportDocument(document, format, getExportView(), context);
+}
+
+// Theme, font size and TOC side of an export. Values sent by a preview are
+// checked, and missing ones come from the settings and the VS Code theme.
+function getExportView(view?: Partial<ExportView>): ExportView {
+  const defaults = getViewDefaults();
+  const themeKind = getColorThemeKind();
+  const isHighContrast =
+    themeKind === "highContrast" || themeKind === "highContrastLight";
+  const vscodeTheme =
+    themeKind === "light" || themeKind === "highContrastLight"
+      ? "light"
+      : "dark";
+
+  return {
+    theme:
+      view?.theme === "light" || view?.theme === "dark"
+        ? view.theme
+        : defaults.defaultTheme === "auto" || isHighContrast
+          ? vscodeTheme
+          : defaults.defaultTheme,
+    fontSize:
+      typeof view?.fontSize === "number" && Number.isFinite(view.fontSize)
+        ? Math.max(10, Math.min(32, view.fontSize))
+        : defaults.fontSize,
+    tocPosition:
+      view?.tocPosition === "left" || view?.tocPosition === "right"
+        ? view.tocPosition
+        : defaults.tocPosition,
+  };
+}
+
+// Export button in the TOC footer: ask for the format
+async function pickExportFormat(
+  document: vscode.TextDocument,
+  view: ExportView,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "HTML",
+        description: "Self-contained HTML file",
+        format: "html" as const,
+      },
+      {
+        label: "PDF",
+        description: "Printed with headless Chromium",
+        format: "pdf" as const,
+      },
+    ],
+    { placeHolder: `Export ${getFileName(document)} as` }
+  );
+  if (choice) {
+    await exportDocument(document, choice.format, view, context);
+  }
+}
+
+// Write the rendered document as standalone HTML or print it to PDF
+async function exportDocument(
+  document: vscode.TextDocument,
+  format: ExportFormat,
+  view: ExportView,
+  context: vscode.ExtensionContext
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+
+  let chromiumPath: string | undefined;
+  if (format === "pdf") {
+    chromiumPath = findChromium(
+      config.get<string>("export.chromiumPath") || undefined
+    );
+    if (!chromiumPath) {
+      vscode.window.showErrorMessage(
+        "PDF export needs a local Chrome, Chromium or Edge installation. Install one or set markdownMultiPreview.export.chromiumPath."
+      );
+      return;
+    }
+  }
+
+  const defaultUri =
+    document.uri.scheme === "file"
+      ? document.uri.with({
+          path: document.uri.path.replace(/(\.[^./]*)?$/, `.${format}`),
+        })
+      : undefined;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri,
+    filters: format === "pdf" ? { PDF: ["pdf"] } : { HTML: ["html", "htm"] },
+  });
+  if (!target) {
+    return;
+  }
+
+  // Reading the KaTeX styles and fonts may fail as well as writing
+  try {
+    // Images are inlined; other local media keep a file URL
+    const { blocks, tocHtml, title } = renderDocument(
+      document,
+      (uri, tag) =>
+        (tag === "img" && uri.scheme === "file" && toDataUri(uri.fsPath)) ||
+        uri.toString()
+    );
+    const contentHtml = blocks.join("");
+
+    // The highlight theme chosen for the exported theme is inlined
+    let customCodeThemeStyles: string | undefined;
+    const codeThemeUri = getCodeThemeUri(
+      context.extensionUri,
+      getCodeThemes()[view.theme]
+    );
+    if (codeThemeUri) {
+      try {
+        customCodeThemeStyles = new TextDecoder().decode(
+          await vscode.workspace.fs.readFile(codeThemeUri)
+        );
+      } catch (__) {
+        // Fall back to the built-in colors
+      }
+    }
+
+    // KaTeX styles, the styles of other extensions and custom styles go
+    // along with the markup they apply to
+    const extraStyles: string[] = [];
+    for (const uri of [
+      ...getPreviewContributions().styles,
+      ...getCustomFiles("styles", document),
+    ]) {
+      try {
+        extraStyles.push(
+          new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+        );
+      } catch (__) {
+        // Missing stylesheets are skipped, as in the preview
+      }
+    }
+    if (contentHtml.includes('class="katex')) {
+      extraStyles.unshift(
+        getInlinedKatexStyles(
+          vscode.Uri.joinPath(context.extensionUri, "dist", "katex").fsPath
+        )
+      );
+    }
+
+    const html = buildStandaloneHtml({
+      title: title || getFileName(document),
+      contentHtml,
+      tocHtml,
+      styles: getPreviewStyles(view.fontSize, view.tocPosition),
+      theme: view.theme,
+      codeThemeStyles: customCodeThemeStyles || getDefaultCodeThemeStyles(),
+      customCodeTheme: customCodeThemeStyles !== undefined,
+      includeToc:
+        format === "html" && config.get<boolean>("export.includeToc", false),
+      extraStyles: extraStyles.join("\n") || undefined,
+    });
+
+    if (chromiumPath) {
+      await printToPdf(chromiumPath, html, target.fsPath);
+    } else {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(html, "utf8"));
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Export failed: ${reason}`);
+    return;
+  }
+
+  const action = await vscode.window.showInformationMessage(
+    `Exported ${target.path.split("/").pop()}`,
+    "Open"
+  );
+  if (action === "Open") {
+    vscode.env.openExternal(target);
+  }
+}
+
+// Scroll a freshly loaded preview to where its document's editor is
+function syncPreviewToEditor(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument
+): void {
+  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+  if (!config.get<boolean>("scrollPreviewWithEditor", true)) {
+    return;
+  }
+
+  const editor = vscode.window.visibleTextEditors.find(
+    (e) => e.document.uri.toString() === document.uri.toString()
+  );
+  const range = editor?.visibleRanges[0];
+  if (range) {
+    panel.webview.postMessage({
+      type: "scrollToLine",
+      line: range.start.line,
+    });
+  }
+}
+
+// Scroll the editors showing a panel's document to the preview's top line
+function revealLineInEditors(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument,
+  line: number
+): void {
+  const config = vscode.workspace.getConfiguration("markdownMultiPreview");
+  if (!config.get<boolean>("scrollEditorWithPreview", true)) {
+    return;
+  }
+
+  const editors = vscode.window.visibleTextEditors.filter(
+    (e) => e.document.uri.toString() === document.uri.toString()
+  );
+  if (editors.length === 0) {
+    return;
+  }
+
+  const sourceLine = Math.max(0, Math.min(line, document.lineCount - 1));
+  const range = new vscode.Range(sourceLine, 0, sourceLine, 0);
+
+  editorScrollSuppression.set(panel, Date.now() + SCROLL_SYNC_SUPPRESS_MS);
+  for (const editor of editors) {
+    editor.revealRange(range, vscode.TextEditorRevealType.AtTop);
+  }
+}
+
+// Select a source line in an editor for the panel's document, opening one
+// beside the preview when none is visible
+function selectSourceLine(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument,
+  line: number,
+  focusEditor: boolean
+): void {
+  const sourceLine = Math.max(0, Math.min(line, document.lineCount - 1));
+  const selection = new vscode.Selection(
+    sourceLine,
+    0,
+    sourceLine,
+    document.lineAt(sourceLine).text.length
+  );
+
+  // The editor scrolls to the line; the preview is already there
+  editorScrollSuppression.set(panel, Date.now() + SCROLL_SYNC_SUPPRESS_MS);
+
+  const editor = vscode.window.visibleTextEditors.find(
+    (e) => e.document.uri.toString() === document.uri.toString()
+  );
+  if (editor && !focusEditor) {
+    editor.selection = selection;
+    editor.revealRange(
+      selection,
+      vscode.TextEditorRevealType.InCenterIfOutsideViewport
+    );
+    return;
+  }
+
+  vscode.window
+    .showTextDocument(document, {
+      viewColumn: editor ? editor.viewColumn : vscode.ViewColumn.Beside,
+      preserveFocus: !focusEditor,
+      selection,
+    })
+    .then(undefined, () => {
+      vscode.window.showWarningMessage(
+        `Could not open ${getFileName(document)}.`
+      );
+    });
+}
+
+// Debounce bursts of edits so large documents stay responsive while typing
+function scheduleUpdate(
+  panel: vscode.WebviewPanel,
+  document: vscode.TextDocument
+): void {
+  cancelScheduledUpdate(panel);
+
+  const timer = setTimeout(() => {
+    pendingUpdates.delete(panel);
+    updatePanelContent(panel, document);
+  }, LIVE_UPDATE_DELAY_MS);
+
+  pendingUpdates.set(panel, timer);
+}
+
+function cancelScheduledUpdate(panel: vscode.WebviewPanel): void {
+  const timer = pendingUpdates.get(panel);
+  if (timer) {
+    clearTimeout(timer);
+    pendingUpdates.delete(panel);
+  }
+}
+
+// Random nonce that lets only our own scripts run in the webview
+function getNonce(): string {
+  const chars =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
+
+// Stylesheet shared by the webview and exported HTML
+function getPreviewStyles(fontSize: number, tocPosition: string): string {
+  const isLeft = tocPosition === "left";
+
+  return `		:root {
+			--preview-font-size: ${fontSize}px;
+			--toc-width: 280px;
+			--toc-min-width: 180px;
+			--toc-max-width: 450px;
+		}
+		
+		* {
+			box-sizing: border-box;
+		}
+		
+		body {
+			font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+			font-size: var(--preview-font-size);
+			line-height: 1.6;
+			margin: 0;
+			padding: 0;
+			color: var(--vscode-editor-foreground);
+			background-color: var(--vscode-editor-background);
+		}
+		
+		/* ===== MAIN LAYOUT ===== */
+		html, body {
+			height: 100%;
+			overflow: hidden;
+		}
+		
+		.main-container {
+			display: flex;
+			flex-direction: ${isLeft ? "row" : "row-reverse"};
+			height: 100vh;
+			overflow: hidden;
+		}
+		
+		.main-container.toc-hidden .toc-sidebar {
+			width: 0 !important;
+			min-width: 0 !important;
+			max-width: 0 !important;
+			padding: 0 !important;
+			border: none !important;
+			opacity: 0;
+			pointer-events: none;
+			overflow: hidden;
+		}
+		
+		.main-container.toc-hidden .content-area {
+			max-width: 100%;
+		}
+		
+		/* ===== TOC SIDEBAR ===== */
+		.toc-sidebar {
+			width: var(--toc-width);
+			min-width: var(--toc-min-width);
+			max-width: var(--toc-max-width);
+			background-color: var(--vscode-sideBar-background, #252526);
+			border-${
+        isLeft ? "right" : "left"
+      }: 1px solid var(--vscode-panel-border, #3c3c3c);
+			padding: 12px;
+			overflow-y: auto;
+			overflow-x: hidden;
+			height: 100vh;
+			display: flex;
+			flex-direction: column;
+			position: relative;
+			flex-shrink: 0;
+		}
+		
+		/* ===== TOC RESIZE HANDLE ===== */
+		.toc-resize-handle {
+			position: absolute;
+			top: 0;
+			${isLeft ? "right" : "left"}: 0;
+			width: 6px;
+			height: 100%;
+			cursor: ${isLeft ? "ew-resize" : "ew-resize"};
+			background: transparent;
+			transition: background-color 0.2s ease;
+			z-index: 10;
+		}
+		
+		.toc-resize-handle:hover,
+		.toc-resize-handle.resizing {
+			background-color: var(--vscode-focusBorder, #007fd4);
+		}
+		
+		.toc-sidebar.resizing {
+			user-select: none;
+			transition: none;
+		}
+		
+		.toc-header {
+			display: flex;
+			align-items: center;
+			justify-content: space-between;
+			margin-bottom: 8px;
+			padding-bottom: 8px;
+			border-bottom: 1px solid var(--vscode-panel-border, #3c3c3c);
+			flex-shrink: 0;
+			flex-wrap: wrap;
+			gap: 6px;
+		}
+		
+		.toc-title {
+			font-size: 0.85em;
+			font-weight: 600;
+			color: var(--vscode-sideBarTitle-foreground, #bbbbbb);
+			text-transform: uppercase;
+			letter-spacing: 0.5px;
+			white-space: nowrap;
+		}
+		
+		/* ===== READING PROGRESS ===== */
+		.reading-time {
+			font-size: 0.75em;
+			color: var(--vscode-descriptionForeground);
+			white-space: nowrap;
+			margin-right: auto;
+		}
+		
+		.reading-progress {
+			flex-basis: 100%;
+			height: 3px;
+			border-radius: 2px;
+			background-color: var(--vscode-panel-border, #3c3c3c);
+			overflow: hidden;
+		}
+		
+		.reading-progress-bar {
+			width: 0;
+			height: 100%;
+			background-color: var(--vscode-progressBar-background, #0e70c0);
+			transition: width 0.1s linear;
+		}
+		
+		.toc-controls {
+			display: flex;
+			gap: 4px;
+			align-items: center;
+			flex-wrap: wrap;
+		}
+		
+		.toc-content {
+			flex: 1;
+			overflow-y: auto;
+			overflow-x: hidden;
+		}
+		
+		.toc-footer {
+			display: flex;
+			align-items: center;
+			justify-content: space-between;
+			margin-top: 12px;
+			padding-top: 8px;
+			border-top: 1px solid var(--vscode-panel-border, #3c3c3c);
+			flex-shrink: 0;
+			gap: 8px;
+		}
+		
+		.toc-btn {
+			background: transparent;
+			border: none;
+			color: var(--vscode-icon-foreground, #c5c5c5);
+			cursor: pointer;
+			padding: 4px 6px;
+			border-radius: 3px;
+			font-size: 14px;
+			display: flex;
+			align-items: center;
+			justify-content: center;
+		}
+		
+		.toc-btn:hover {
+			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		}
+		
+		.toc-btn svg {
+			width: 16px;
+			height: 16px;
+			fill: currentColor;
+		}
+		
+		.toc-btn.active {
+			color: var(--vscode-textLink-foreground, #3794ff);
+		}
+		
+		.toc-btn.hidden {
+			display: none;
+		}
+		
+		/* ===== FONT SIZE CONTROLS ===== */
+		.font-size-controls {
+			display: flex;
+			align-items: center;
+			gap: 4px;
+			background: var(--vscode-input-background, #3c3c3c);
+			border-radius: 4px;
+			padding: 2px 6px;
+		}
+		
+		.font-size-controls span {
+			font-size: 11px;
+			color: var(--vscode-input-foreground, #cccccc);
+			min-width: 28px;
+			text-align: center;
+		}
+		
+		.font-btn {
+			background: transparent;
+			border: none;
+			color: var(--vscode-input-foreground, #cccccc);
+			cursor: pointer;
+			padding: 2px 6px;
+			border-radius: 3px;
+			font-size: 14px;
+			font-weight: bold;
+			line-height: 1;
+		}
+		
+		.font-btn:hover {
+			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		}
+		
+		/* ===== THEME TOGGLE ===== */
+		.theme-toggle {
+			background: transparent;
+			border: none;
+			color: var(--vscode-icon-foreground, #c5c5c5);
+			cursor: pointer;
+			padding: 4px 6px;
+			border-radius: 3px;
+			font-size: 16px;
+			display: flex;
+			align-items: center;
+			justify-content: center;
+		}
+		
+		.theme-toggle:hover {
+			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		}
+		
+		/* Light theme styles */
+		body.light-theme {
+			--vscode-editor-foreground: #333333;
+			--vscode-editor-background: #ffffff;
+			--vscode-sideBar-background: #f3f3f3;
+			--vscode-panel-border: #e0e0e0;
+			--vscode-sideBarTitle-foreground: #666666;
+			--vscode-icon-foreground: #666666;
+			--vscode-textLink-foreground: #0066cc;
+			--vscode-list-hoverBackground: #e8e8e8;
+			--vscode-input-background: #ffffff;
+			--vscode-input-foreground: #333333;
+			--vscode-button-background: #0066cc;
+			--vscode-button-foreground: #ffffff;
+			--vscode-descriptionForeground: #666666;
+			--vscode-textCodeBlock-background: rgba(0, 0, 0, 0.05);
+			--vscode-editor-selectionBackground: rgba(0, 102, 204, 0.1);
+			--vscode-textBlockQuote-border: #0066cc;
+			--vscode-textBlockQuote-background: rgba(0, 102, 204, 0.05);
+		}
+		
+		body.light-theme pre {
+			background-color: #f6f8fa !important;
+			border: 1px solid #e1e4e8;
+		}
+		
+		body.light-theme:not(.custom-code-theme) pre code {
+			background-color: transparent !important;
+		}
+		
+		body.light-theme :not(pre) > code {
+			background-color: rgba(27, 31, 35, 0.05);
+			color: #24292e;
+		}
+		
+		body.light-theme blockquote {
+			background-color: rgba(0, 102, 204, 0.05);
+			border-radius: 4px;
+		}
+		
+		body.light-theme blockquote code,
+		body.light-theme blockquote pre {
+			background-color: rgba(27, 31, 35, 0.08) !important;
+		}
+		
+		/* ===== SCROLLBAR STYLING (Dark Theme) ===== */
+		::-webkit-scrollbar {
+			width: 10px;
+			height: 10px;
+		}
+		
+		::-webkit-scrollbar-track {
+			background: var(--vscode-editor-background, #1e1e1e);
+		}
+		
+		::-webkit-scrollbar-thumb {
+			background: #5a5a5a;
+			border-radius: 5px;
+		}
+		
+		::-webkit-scrollbar-thumb:hover {
+			background: #6e6e6e;
+		}
+		
+		::-webkit-scrollbar-corner {
+			background: var(--vscode-editor-background, #1e1e1e);
+		}
+		
+		/* ===== SCROLLBAR STYLING (Light Theme) ===== */
+		body.light-theme,
+		body.light-theme *,
+		.light-theme ::-webkit-scrollbar-track,
+		.light-theme *::-webkit-scrollbar-track {
+			scrollbar-color: #c1c1c1 #f5f5f5;
+		}
+		
+		body.light-theme ::-webkit-scrollbar-track,
+		body.light-theme *::-webkit-scrollbar-track {
+			background: #f5f5f5 !important;
+		}
+		
+		body.light-theme ::-webkit-scrollbar-thumb,
+		body.light-theme *::-webkit-scrollbar-thumb {
+			background: #c1c1c1 !important;
+			border-radius: 5px;
+		}
+		
+		body.light-theme ::-webkit-scrollbar-thumb:hover,
+		body.light-theme *::-webkit-scrollbar-thumb:hover {
+			background: #a8a8a8 !important;
+		}
+		
+		body.light-theme ::-webkit-scrollbar-corner,
+		body.light-theme *::-webkit-scrollbar-corner {
+			background: #f5f5f5 !important;
+		}
+
+		/* ===== TOC LIST ===== */
+		.toc-list {
+			list-style: none;
+			padding: 0;
+			margin: 0;
+		}
+		
+		.toc-list .toc-list {
+			padding-left: 16px;
+			margin-top: 4px;
+			overflow: hidden;
+			transition: max-height 0.3s ease;
+		}
+		
+		.toc-item {
+			margin: 2px 0;
+		}
+		
+		.toc-item.collapsed > .toc-list {
+			max-height: 0;
+		}
+		
+		.toc-item:not(.collapsed) > .toc-list {
+			max-height: 2000px;
+		}
+		
+		.toc-toggle {
+			display: inline-block;
+			width: 16px;
+			font-size: 10px;
+			cursor: pointer;
+			color: var(--vscode-icon-foreground, #c5c5c5);
+			user-select: none;
+			transition: transform 0.2s ease;
+		}
+		
+		.toc-item.collapsed > .toc-toggle {
+			transform: rotate(-90deg);
+		}
+		
+		.toc-link {
+			color: var(--vscode-textLink-foreground, #3794ff);
+			text-decoration: none;
+			font-size: 0.8em;
+			display: inline;
+			padding: 2px 4px;
+			border-radius: 3px;
+			transition: background-color 0.15s ease;
+			word-wrap: break-word;
+			word-break: break-word;
+			line-height: 1.4;
+		}
+		
+		.toc-link:hover {
+			background-color: var(--vscode-list-hoverBackground, #2a2d2e);
+			text-decoration: none;
+		}
+		
+		.toc-link[data-level="1"] {
+			font-weight: 600;
+			color: var(--vscode-editor-foreground);
+		}
+		
+		.toc-link[data-level="2"] {
+			font-weight: 500;
+		}
+		
+		.toc-link.active-section {
+			background-color: var(--vscode-list-activeSelectionBackground, #04395e);
+			color: var(--vscode-list-activeSelectionForeground, #ffffff);
+		}
+		
+		/* ===== FLOATING TOGGLE BUTTON ===== */
+		.toc-floating-toggle {
+			position: fixed;
+			top: 12px;
+			${isLeft ? "left" : "right"}: 12px;
+			z-index: 1000;
+			background-color: var(--vscode-button-background, #0e639c);
+			color: var(--vscode-button-foreground, #ffffff);
+			border: none;
+			border-radius: 6px;
+			padding: 8px 10px;
+			cursor: pointer;
+			align-items: center;
+			justify-content: center;
+			box-shadow: 0 2px 8px rgba(0,0,0,0.4);
+			transition: background-color 0.2s ease, transform 0.2s ease, opacity 0.2s ease;
+			display: flex;
+		}
+		
+		.toc-floating-toggle:hover {
+			background-color: var(--vscode-button-hoverBackground, #1177bb);
+			transform: scale(1.05);
+		}
+		
+		.toc-floating-toggle svg {
+			width: 22px;
+			height: 22px;
+			fill: currentColor;
+		}
+		
+		/* Hide hamburger when TOC is visible */
+		.toc-floating-toggle.hidden {
+			opacity: 0;
+			pointer-events: none;
+		}
+		
+		/* ===== POSITION SWITCHER ===== */
+		.position-switcher {
+			display: flex;
+			gap: 2px;
+			background: var(--vscode-input-background, #3c3c3c);
+			border-radius: 4px;
+			padding: 2px;
+		}
+		
+		.position-btn {
+			background: transparent;
+			border: none;
+			color: var(--vscode-input-foreground, #cccccc);
+			cursor: pointer;
+			padding: 4px 8px;
+			border-radius: 3px;
+			font-size: 11px;
+			transition: background-color 0.15s ease;
+		}
+		
+		.position-btn:hover {
+			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		}
+		
+		.position-btn.active {
+			background-color: var(--vscode-button-background, #0e639c);
+			color: var(--vscode-button-foreground, #ffffff);
+		}
+		
+		/* ===== CONTENT AREA ===== */
+		.content-area {
+			flex: 1;
+			padding: 20px 40px;
+			max-width: 900px;
+			margin: 0 auto;
+			overflow-y: auto;
+			height: 100vh;
+		}
+		
+		/* ===== MARKDOWN CONTENT STYLES ===== */
+		/* Line hover indicator for all block elements */
+		h1, h2, h3, h4, h5, h6, p, ul, ol, blockquote, table, pre {
+			position: relative;
+			border-left: 3px solid transparent;
+			padding-left: 12px;
+			margin-left: -15px;
+		}
+		
+		h1:hover, h2:hover, h3:hover, h4:hover, h5:hover, h6:hover,
+		p:hover, ul:hover, ol:hover, blockquote:hover, table:hover, pre:hover {
+			border-left-color: var(--vscode-textLink-foreground, #3794ff);
+		}
+		
+		h1, h2, h3, h4, h5, h6 {
+			margin-top: 1em;
+			margin-bottom: 0.3em;
+			font-weight: 700;
+			line-height: 1.3;
+		}
+		h1 { font-size: 1.75em; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 0.25em; }
+		h2 { font-size: 1.35em; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 0.2em; }
+		h3 { font-size: 1.15em; }
+		h4 { font-size: 1.05em; }
+		h5 { font-size: 1em; }
+		h6 { font-size: 0.95em; color: var(--vscode-descriptionForeground); }
+		p { margin: 0.6em 0; }
+		
+		/* Inline code */
+		code {
+			background-color: var(--vscode-textCodeBlock-background, rgba(110, 118, 129, 0.4));
+			padding: 0.2em 0.4em;
+			border-radius: 3px;
+			font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+			font-size: 0.85em;
+		}
+		
+		/* Code block container - VS Code dark */
+		pre {
+			background-color: #1a1a1a;
+			padding: 14px 16px;
+			overflow: auto;
+			border-radius: 4px;
+			margin: 0.7em 0;
+		}
+		
+		pre code {
+			background-color: transparent;
+			padding: 0;
+			font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+			font-size: 0.88em;
+			line-height: 1.5;
+			display: block;
+		}
+		
+		blockquote {
+			margin: 0.6em 0;
+			padding: 0 1em;
+			color: var(--vscode-descriptionForeground);
+			border-left: 4px solid var(--vscode-textBlockQuote-border, #007acc);
+		}
+		a {
+			color: var(--vscode-textLink-foreground);
+			text-decoration: none;
+		}
+		a:hover {
+			text-decoration: underline;
+		}
+		ul, ol {
+			padding-left: 2em;
+			margin: 0.6em 0;
+		}
+		li { margin: 0.2em 0; }
+		table {
+			border-collapse: collapse;
+			width: 100%;
+			margin: 0.8em 0;
+		}
+		th, td {
+			border: 1px solid var(--vscode-panel-border);
+			padding: 6px 10px;
+			text-align: left;
+		}
+		th {
+			background-color: var(--vscode-editor-selectionBackground);
+			font-weight: 600;
+		}
+		img {
+			max-width: 100%;
+			height: auto;
+		}
+		hr {
+			border: none;
+			border-top: 1px solid var(--vscode-panel-border);
+			margin: 1.2em 0;
+		}
+		/* Strong and emphasis in text */
+		strong, b {
+			font-weight: 600;
+			color: var(--vscode-editor-foreground);
+		}
+		em, i {
+			font-style: italic;
+		}
+		
+		/* Scroll margin for headings */
+		h1[id], h2[id], h3[id], h4[id], h5[id], h6[id] {
+			scroll-margin-top: 20px;
+		}
+		
+		/* ===== MERMAID DIAGRAMS ===== */
+		.mermaid-diagram {
+			margin: 0.8em 0;
+		}
+		
+		.mermaid-diagram[data-rendered] .mermaid-source {
+			display: none;
+		}
+		
+		.mermaid-output {
+			text-align: center;
+			overflow-x: auto;
+		}
+		
+		.mermaid-output svg {
+			max-width: 100%;
+			height: auto;
+		}
+		
+		.mermaid-error {
+			text-align: left;
+			white-space: pre-wrap;
+			font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+			font-size: 0.85em;
+			padding: 10px 14px;
+			border-radius: 4px;
+			border: 1px solid var(--vscode-inputValidation-errorBorder, #be1100);
+			background-color: var(--vscode-inputValidation-errorBackground, rgba(190, 17, 0, 0.15));
+			color: var(--vscode-errorForeground, #f48771);
+		}
+		
+		body.light-theme .mermaid-error {
+			color: #b31d28;
+			background-color: #ffeef0;
+		}
+		
+		/* ===== RENDERED DIFF ===== */
+		.diff-summary {
+			margin: 0 0 1em;
+			padding: 6px 12px;
+			border-radius: 4px;
+			font-size: 0.9em;
+			color: var(--vscode-descriptionForeground);
+			background-color: var(--vscode-sideBar-background, #252526);
 		}
 		
-		* {
-			box-sizing: border-box;
+		.diff-count-added {
+			color: #3fb950;
 		}
 		
-		body {
-			font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
-			font-size: var(--preview-font-size);
-			line-height: 1.6;
-			margin: 0;
-			padding: 0;
-			color: var(--vscode-editor-foreground);
-			background-color: var(--vscode-editor-background);
+		.diff-count-removed {
+			color: #f85149;
 		}
 		
-		/* ===== MAIN LAYOUT ===== */
-		html, body {
-			height: 100%;
-			overflow: hidden;
+		.diff-count-changed {
+			color: #d29922;
 		}
 		
-		.main-container {
-			display: flex;
-			flex-direction: ${isLeft ? "row" : "row-reverse"};
-			height: 100vh;
-			overflow: hidden;
+		.diff-added,
+		.diff-removed,
+		.diff-changed {
+			padding: 1px 0 1px 12px;
+			border-left: 3px solid;
 		}
 		
-		.main-container.toc-hidden .toc-sidebar {
-			width: 0 !important;
-			min-width: 0 !important;
-			max-width: 0 !important;
-			padding: 0 !important;
-			border: none !important;
-			opacity: 0;
-			pointer-events: none;
-			overflow: hidden;
+		.diff-added {
+			border-left-color: #3fb950;
+			background-color: rgba(46, 160, 67, 0.15);
 		}
 		
-		.main-container.toc-hidden .content-area {
-			max-width: 100%;
+		.diff-removed {
+			border-left-color: #f85149;
+			background-color: rgba(248, 81, 73, 0.15);
+			opacity: 0.8;
 		}
 		
-		/* ===== TOC SIDEBAR ===== */
-		.toc-sidebar {
-			width: var(--toc-width);
-			min-width: var(--toc-min-width);
-			max-width: var(--toc-max-width);
-			background-color: var(--vscode-sideBar-background, #252526);
-			border-${
-        isLeft ? "right" : "left"
-      }: 1px solid var(--vscode-panel-border, #3c3c3c);
-			padding: 12px;
-			overflow-y: auto;
-			overflow-x: hidden;
-			height: 100vh;
-			display: flex;
-			flex-direction: column;
-			position: relative;
-			flex-shrink: 0;
+		.diff-changed {
+			border-left-color: #d29922;
 		}
 		
-		/* ===== TOC RESIZE HANDLE ===== */
-		.toc-resize-handle {
-			position: absolute;
-			top: 0;
-			${isLeft ? "right" : "left"}: 0;
-			width: 6px;
-			height: 100%;
-			cursor: ${isLeft ? "ew-resize" : "ew-resize"};
-			background: transparent;
-			transition: background-color 0.2s ease;
-			z-index: 10;
+		ins.diff-inline-added {
+			text-decoration: none;
+			background-color: rgba(46, 160, 67, 0.3);
 		}
 		
-		.toc-resize-handle:hover,
-		.toc-resize-handle.resizing {
-			background-color: var(--vscode-focusBorder, #007fd4);
+		del.diff-inline-removed {
+			background-color: rgba(248, 81, 73, 0.3);
 		}
 		
-		.toc-sidebar.resizing {
-			user-select: none;
-			transition: none;
+		/* ===== BROKEN LINKS ===== */
+		.content-area a.broken-link {
+			text-decoration: underline wavy var(--vscode-editorError-foreground, #f14c4c);
+			text-decoration-skip-ink: none;
+			text-underline-offset: 3px;
 		}
 		
-		.toc-header {
+		/* ===== FIND BAR ===== */
+		.find-bar {
+			position: fixed;
+			top: 8px;
+			right: 24px;
+			z-index: 1001;
 			display: flex;
 			align-items: center;
-			justify-content: space-between;
-			margin-bottom: 8px;
-			padding-bottom: 8px;
-			border-bottom: 1px solid var(--vscode-panel-border, #3c3c3c);
-			flex-shrink: 0;
-			flex-wrap: wrap;
-			gap: 6px;
+			gap: 2px;
+			padding: 4px 6px;
+			background-color: var(--vscode-editorWidget-background, #252526);
+			border: 1px solid var(--vscode-editorWidget-border, #454545);
+			border-radius: 4px;
+			box-shadow: 0 2px 8px var(--vscode-widget-shadow, rgba(0, 0, 0, 0.36));
 		}
 		
-		.toc-title {
-			font-size: 0.85em;
-			font-weight: 600;
-			color: var(--vscode-sideBarTitle-foreground, #bbbbbb);
-			text-transform: uppercase;
-			letter-spacing: 0.5px;
-			white-space: nowrap;
+		.find-bar.hidden {
+			display: none;
 		}
 		
-		.toc-controls {
-			display: flex;
-			gap: 4px;
-			align-items: center;
-			flex-wrap: wrap;
+		.find-bar input {
+			width: 180px;
+			padding: 3px 6px;
+			font-size: 13px;
+			color: var(--vscode-input-foreground, #cccccc);
+			background-color: var(--vscode-input-background, #3c3c3c);
+			border: 1px solid var(--vscode-input-border, transparent);
+			border-radius: 2px;
+			outline: none;
 		}
 		
-		.toc-content {
-			flex: 1;
-			overflow-y: auto;
-			overflow-x: hidden;
+		.find-bar input:focus {
+			border-color: var(--vscode-focusBorder, #007fd4);
 		}
 		
-		.toc-footer {
-			display: flex;
-			align-items: center;
-			justify-content: space-between;
-			margin-top: 12px;
-			padding-top: 8px;
-			border-top: 1px solid var(--vscode-panel-border, #3c3c3c);
-			flex-shrink: 0;
-			gap: 8px;
+		.find-bar input.invalid {
+			border-color: var(--vscode-inputValidation-errorBorder, #be1100);
 		}
 		
-		.toc-btn {
-			background: transparent;
-			border: none;
+		.find-option,
+		.find-nav {
+			padding: 2px 5px;
+			font-size: 12px;
+			line-height: 1.2;
 			color: var(--vscode-icon-foreground, #c5c5c5);
-			cursor: pointer;
-			padding: 4px 6px;
+			background: transparent;
+			border: 1px solid transparent;
 			border-radius: 3px;
-			font-size: 14px;
-			display: flex;
-			align-items: center;
-			justify-content: center;
+			cursor: pointer;
 		}
 		
-		.toc-btn:hover {
-			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		.find-option:hover,
+		.find-nav:hover:not(:disabled) {
+			background-color: var(--vscode-toolbar-hoverBackground, rgba(90, 93, 94, 0.31));
 		}
 		
-		.toc-btn svg {
-			width: 16px;
-			height: 16px;
-			fill: currentColor;
+		.find-nav:disabled {
+			opacity: 0.4;
+			cursor: default;
 		}
 		
-		/* ===== FONT SIZE CONTROLS ===== */
-		.font-size-controls {
-			display: flex;
-			align-items: center;
-			gap: 4px;
-			background: var(--vscode-input-background, #3c3c3c);
-			border-radius: 4px;
-			padding: 2px 6px;
+		.find-option.active {
+			color: var(--vscode-inputOption-activeForeground, #ffffff);
+			background-color: var(--vscode-inputOption-activeBackground, rgba(0, 127, 212, 0.4));
+			border-color: var(--vscode-inputOption-activeBorder, #007acc);
 		}
 		
-		.font-size-controls span {
-			font-size: 11px;
-			color: var(--vscode-input-foreground, #cccccc);
-			min-width: 28px;
+		.find-count {
+			min-width: 72px;
+			font-size: 12px;
 			text-align: center;
+			white-space: nowrap;
+			color: var(--vscode-descriptionForeground, #9d9d9d);
 		}
 		
-		.font-btn {
-			background: transparent;
-			border: none;
-			color: var(--vscode-input-foreground, #cccccc);
-			cursor: pointer;
-			padding: 2px 6px;
-			border-radius: 3px;
-			font-size: 14px;
-			font-weight: bold;
-			line-height: 1;
+		mark.find-match {
+			color: inherit;
+			background-color: var(--vscode-editor-findMatchHighlightBackground, rgba(234, 92, 0, 0.33));
+			border-radius: 2px;
 		}
 		
-		.font-btn:hover {
-			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		mark.find-match.current {
+			background-color: var(--vscode-editor-findMatchBackground, #515c6a);
+			outline: 1px solid var(--vscode-editor-findMatchBorder, #74879f);
 		}
 		
-		/* ===== THEME TOGGLE ===== */
-		.theme-toggle {
-			background: transparent;
-			border: none;
-			color: var(--vscode-icon-foreground, #c5c5c5);
+		.toc-item.find-hidden {
+			display: none;
+		}
+		
+		/* ===== FRONT MATTER ===== */
+		.front-matter {
+			margin: 0 0 1em;
+			padding: 6px 12px;
+			border: 1px solid var(--vscode-panel-border, #3c3c3c);
+			border-radius: 4px;
+			font-size: 0.9em;
+		}
+		
+		.front-matter summary {
 			cursor: pointer;
-			padding: 4px 6px;
-			border-radius: 3px;
-			font-size: 16px;
-			display: flex;
-			align-items: center;
-			justify-content: center;
+			color: var(--vscode-descriptionForeground);
+			font-weight: 600;
+			user-select: none;
 		}
 		
-		.theme-toggle:hover {
-			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		.front-matter-table {
+			margin: 0.5em 0 0.3em;
 		}
 		
-		/* Light theme styles */
-		body.light-theme {
-			--vscode-editor-foreground: #333333;
-			--vscode-editor-background: #ffffff;
-			--vscode-sideBar-background: #f3f3f3;
-			--vscode-panel-border: #e0e0e0;
-			--vscode-sideBarTitle-foreground: #666666;
-			--vscode-icon-foreground: #666666;
-			--vscode-textLink-foreground: #0066cc;
-			--vscode-list-hoverBackground: #e8e8e8;
-			--vscode-input-background: #ffffff;
-			--vscode-input-foreground: #333333;
-			--vscode-button-background: #0066cc;
-			--vscode-button-foreground: #ffffff;
-			--vscode-descriptionForeground: #666666;
-			--vscode-textCodeBlock-background: rgba(0, 0, 0, 0.05);
-			--vscode-editor-selectionBackground: rgba(0, 102, 204, 0.1);
-			--vscode-textBlockQuote-border: #0066cc;
-			--vscode-textBlockQuote-background: rgba(0, 102, 204, 0.05);
+		.front-matter-table th {
+			width: 1%;
+			white-space: nowrap;
 		}
 		
-		body.light-theme pre {
-			background-color: #f6f8fa !important;
-			border: 1px solid #e1e4e8;
+		.front-matter-card {
+			margin: 0 0 1.2em;
+			padding: 14px 18px;
+			border-radius: 6px;
+			border: 1px solid var(--vscode-panel-border, #3c3c3c);
+			background-color: var(--vscode-sideBar-background, #252526);
 		}
 		
-		body.light-theme pre code {
-			background-color: transparent !important;
+		.front-matter-title {
+			font-size: 1.4em;
+			font-weight: 700;
 		}
 		
-		body.light-theme code {
-			background-color: rgba(27, 31, 35, 0.05);
-			color: #24292e;
+		.front-matter-description {
+			color: var(--vscode-descriptionForeground);
+			margin-top: 0.3em;
 		}
 		
-		body.light-theme blockquote {
-			background-color: rgba(0, 102, 204, 0.05);
+		.front-matter-fields {
+			display: grid;
+			grid-template-columns: max-content 1fr;
+			gap: 4px 14px;
+			margin: 0.8em 0 0;
+			font-size: 0.9em;
+		}
+		
+		.front-matter-fields dt {
+			color: var(--vscode-descriptionForeground);
+		}
+		
+		.front-matter-fields dd {
+			margin: 0;
+		}
+		
+		.front-matter-tag {
+			display: inline-block;
+			padding: 0 8px;
+			margin: 1px 0;
+			border-radius: 10px;
+			font-size: 0.9em;
+			background-color: var(--vscode-textCodeBlock-background, rgba(110, 118, 129, 0.4));
+		}
+		
+		.front-matter-error {
+			color: var(--vscode-errorForeground, #f48771);
+			margin: 0.4em 0;
+		}
+		
+		/* ===== KATEX MATH ===== */
+		.katex-block {
+			overflow-x: auto;
+			overflow-y: hidden;
+		}
+		
+		.katex-error {
+			font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+			font-size: 0.85em;
+			padding: 0.1em 0.4em;
+			border-radius: 3px;
+			border: 1px solid var(--vscode-inputValidation-errorBorder, #be1100);
+			background-color: var(--vscode-inputValidation-errorBackground, rgba(190, 17, 0, 0.15));
+			/* Wins over the errorColor KaTeX sets inline */
+			color: var(--vscode-errorForeground, #f48771) !important;
+		}
+		
+		p.katex-error {
+			padding: 8px 12px;
+		}
+		
+		body.light-theme .katex-error {
+			color: #b31d28 !important;
+			background-color: #ffeef0;
+		}
+
+		/* ===== HIGHLIGHT THEME FROM SETTINGS ===== */
+		/* A highlight.js theme colors the code element; it gets the block's
+		   padding and background instead of the pre around it */
+		body.custom-code-theme pre,
+		body.light-theme.custom-code-theme pre {
+			padding: 0;
+			border: none;
+			background-color: transparent !important;
+		}
+		
+		body.custom-code-theme pre code.hljs {
+			padding: 14px 16px;
 			border-radius: 4px;
 		}
 		
-		body.light-theme blockquote code,
-		body.light-theme blockquote pre {
-			background-color: rgba(27, 31, 35, 0.08) !important;
+		/* ===== HIGH CONTRAST ===== */
+		/* High contrast themes keep VS Code's own colors instead of the
+		   preview's light palette */
+		body.high-contrast.light-theme {
+			--vscode-editor-foreground: inherit;
+			--vscode-editor-background: inherit;
+			--vscode-sideBar-background: inherit;
+			--vscode-panel-border: inherit;
+			--vscode-sideBarTitle-foreground: inherit;
+			--vscode-icon-foreground: inherit;
+			--vscode-textLink-foreground: inherit;
+			--vscode-list-hoverBackground: inherit;
+			--vscode-input-background: inherit;
+			--vscode-input-foreground: inherit;
+			--vscode-button-background: inherit;
+			--vscode-button-foreground: inherit;
+			--vscode-descriptionForeground: inherit;
+			--vscode-textCodeBlock-background: inherit;
+			--vscode-editor-selectionBackground: inherit;
+			--vscode-textBlockQuote-border: inherit;
+			--vscode-textBlockQuote-background: inherit;
 		}
 		
-		body.light-theme .hljs {
-			color: #24292e;
-			background: transparent;
+		body.high-contrast pre,
+		body.high-contrast.light-theme pre {
+			background-color: var(--vscode-editor-background) !important;
+			border: 1px solid var(--vscode-contrastBorder, #6fc3df);
 		}
 		
-		body.light-theme .hljs-comment,
-		body.light-theme .hljs-quote,
-		body.light-theme .hljs-shebang {
-			color: #6a737d;
-			font-style: italic;
+		body.high-contrast code {
+			background-color: transparent;
+			border: 1px solid var(--vscode-contrastBorder, #6fc3df);
 		}
 		
-		body.light-theme .hljs-keyword,
-		body.light-theme .hljs-selector-tag,
-		body.light-theme .hljs-reserved {
-			color: #d73a49;
+		body.high-contrast pre code {
+			border: none;
 		}
 		
-		body.light-theme .hljs-literal,
-		body.light-theme .hljs-constant {
-			color: #005cc5;
+		body.high-contrast blockquote {
+			background-color: transparent;
+			border-left-color: var(--vscode-contrastBorder, #6fc3df);
 		}
 		
-		body.light-theme .hljs-string,
-		body.light-theme .hljs-doctag,
-		body.light-theme .hljs-regexp {
-			color: #032f62;
+		body.high-contrast th,
+		body.high-contrast td,
+		body.high-contrast hr,
+		body.high-contrast h1,
+		body.high-contrast h2 {
+			border-color: var(--vscode-contrastBorder, #6fc3df);
 		}
 		
-		body.light-theme .hljs-number {
-			color: #005cc5;
+		body.high-contrast th {
+			background-color: transparent;
 		}
 		
-		body.light-theme .hljs-title,
-		body.light-theme .hljs-title.function_,
-		body.light-theme .hljs-function .hljs-title {
-			color: #6f42c1;
+		body.high-contrast a {
+			text-decoration: underline;
 		}
 		
-		body.light-theme .hljs-type,
-		body.light-theme .hljs-built_in,
-		body.light-theme .hljs-builtin-name,
-		body.light-theme .hljs-class .hljs-title,
-		body.light-theme .hljs-title.class_ {
-			color: #6f42c1;
+		body.high-contrast .toc-sidebar {
+			border-color: var(--vscode-contrastBorder, #6fc3df) !important;
 		}
 		
-		body.light-theme .hljs-variable,
-		body.light-theme .hljs-template-variable,
-		body.light-theme .hljs-params {
-			color: #e36209;
+		body.high-contrast .toc-link:hover,
+		body.high-contrast .toc-link.active-section,
+		body.high-contrast button:hover,
+		body.high-contrast :focus-visible {
+			outline: 1px dashed var(--vscode-contrastActiveBorder, #f38518);
+			outline-offset: -1px;
 		}
 		
-		body.light-theme .hljs-property,
-		body.light-theme .hljs-attr,
-		body.light-theme .hljs-attribute {
-			color: #005cc5;
+		body.high-contrast .theme-toggle:disabled {
+			opacity: 0.5;
+			cursor: default;
+		}`;
+}
+
+// Built-in highlight.js colors: VS Code Dark+, with GitHub-like colors in
+// the light theme. Replaced by the highlight theme chosen in settings.
+function getDefaultCodeThemeStyles(): string {
+  return `		/* Highlight.js VS Code Dark+ Theme - Enhanced for all major languages */
+		.hljs {
+			color: #d4d4d4;
 		}
 		
-		body.light-theme .hljs-meta,
-		body.light-theme .hljs-decorator {
-			color: #6f42c1;
+		/* ===== COMMENTS ===== */
+		/* Green italic - works for all languages */
+		.hljs-comment,
+		.hljs-quote,
+		.hljs-shebang {
+			color: #6a9955;
+			font-style: italic;
 		}
 		
-		body.light-theme .hljs-name,
-		body.light-theme .hljs-tag {
-			color: #22863a;
+		/* ===== KEYWORDS ===== */
+		/* Blue - if, for, while, def, class, import, return, async, await, etc. */
+		.hljs-keyword,
+		.hljs-selector-tag,
+		.hljs-reserved {
+			color: #569cd6;
 		}
 		
-		body.light-theme .hljs-selector-class,
-		body.light-theme .hljs-selector-id {
-			color: #6f42c1;
+		/* ===== CONSTANTS & LITERALS ===== */
+		/* Blue - True, False, None, null, undefined, NaN, Infinity */
+		.hljs-literal,
+		.hljs-constant {
+			color: #569cd6;
 		}
 		
-		body.light-theme .hljs-symbol,
-		body.light-theme .hljs-bullet,
-		body.light-theme .hljs-link {
-			color: #005cc5;
+		/* ===== TYPES & CLASSES ===== */
+		/* Teal - int, str, list, dict, Array, Object, Promise, etc. */
+		.hljs-type,
+		.hljs-built_in,
+		.hljs-builtin-name,
+		.hljs-class .hljs-title,
+		.hljs-title.class_,
+		.hljs-title.class_.inherited__ {
+			color: #4ec9b0;
 		}
 		
-		body.light-theme .hljs-deletion {
-			color: #b31d28;
-			background-color: #ffeef0;
+		/* ===== NUMBERS ===== */
+		/* Light green */
+		.hljs-number {
+			color: #b5cea8;
 		}
 		
-		body.light-theme .hljs-addition {
-			color: #22863a;
-			background-color: #e6ffed;
+		/* ===== STRINGS ===== */
+		/* Orange - single, double, template strings, regex */
+		.hljs-string,
+		.hljs-doctag,
+		.hljs-regexp,
+		.hljs-template-tag,
+		.hljs-subst {
+			color: #ce9178;
 		}
 		
-		body.light-theme .hljs-operator,
-		body.light-theme .hljs-punctuation {
-			color: #24292e;
+		/* ===== FUNCTIONS ===== */
+		/* Yellow - function names, method names */
+		.hljs-title,
+		.hljs-title.function_,
+		.hljs-function .hljs-title,
+		.hljs-title.invoked__ {
+			color: #dcdcaa;
 		}
 		
-		body.light-theme .hljs-section {
-			color: #005cc5;
-			font-weight: bold;
+		/* ===== VARIABLES & PARAMETERS ===== */
+		/* Light blue */
+		.hljs-variable,
+		.hljs-template-variable,
+		.hljs-params,
+		.hljs-variable.language_ {
+			color: #9cdcfe;
 		}
 		
-		body.light-theme .hljs-emphasis {
-			font-style: italic;
+		/* ===== PROPERTIES & ATTRIBUTES ===== */
+		/* Light blue - console, document, window, this, self */
+		.hljs-property,
+		.hljs-attr,
+		.hljs-attribute {
+			color: #9cdcfe;
 		}
 		
-		body.light-theme .hljs-strong {
-			font-weight: bold;
+		/* ===== OPERATORS & PUNCTUATION ===== */
+		.hljs-operator {
+			color: #d4d4d4;
 		}
-
-		/* ===== SCROLLBAR STYLING (Dark Theme) ===== */
-		::-webkit-scrollbar {
-			width: 10px;
-			height: 10px;
+		.hljs-punctuation {
+			color: #d4d4d4;
 		}
 		
-		::-webkit-scrollbar-track {
-			background: var(--vscode-editor-background, #1e1e1e);
+		/* ===== DECORATORS & META ===== */
+		/* Purple - @decorator, @property, etc. */
+		.hljs-meta,
+		.hljs-decorator,
+		.hljs-meta .hljs-keyword,
+		.hljs-meta .hljs-string {
+			color: #c586c0;
 		}
 		
-		::-webkit-scrollbar-thumb {
-			background: #5a5a5a;
-			border-radius: 5px;
+		/* ===== HTML/XML/JSX TAGS ===== */
+		.hljs-name,
+		.hljs-tag {
+			color: #569cd6;
+		}
+		.hljs-tag .hljs-attr {
+			color: #9cdcfe;
+		}
+		.hljs-tag .hljs-string {
+			color: #ce9178;
 		}
 		
-		::-webkit-scrollbar-thumb:hover {
-			background: #6e6e6e;
+		/* ===== CSS SPECIFIC ===== */
+		.hljs-selector-class,
+		.hljs-selector-id {
+			color: #d7ba7d;
+		}
+		.hljs-selector-pseudo,
+		.hljs-selector-attr {
+			color: #d7ba7d;
 		}
 		
-		::-webkit-scrollbar-corner {
-			background: var(--vscode-editor-background, #1e1e1e);
+		/* ===== SQL SPECIFIC ===== */
+		/* SQL keywords in uppercase convention */
+		.language-sql .hljs-keyword {
+			color: #569cd6;
+		}
+		.language-sql .hljs-built_in {
+			color: #4ec9b0;
+		}
+		.language-sql .hljs-string {
+			color: #ce9178;
 		}
 		
-		/* ===== SCROLLBAR STYLING (Light Theme) ===== */
-		body.light-theme,
-		body.light-theme *,
-		.light-theme ::-webkit-scrollbar-track,
-		.light-theme *::-webkit-scrollbar-track {
-			scrollbar-color: #c1c1c1 #f5f5f5;
+		/* ===== PYTHON SPECIFIC ===== */
+		/* Self keyword */
+		.language-python .hljs-variable.language_ {
+			color: #569cd6;
+		}
+		/* Magic methods __init__, __str__ */
+		.language-python .hljs-title.function_.magic_ {
+			color: #dcdcaa;
 		}
 		
-		body.light-theme ::-webkit-scrollbar-track,
-		body.light-theme *::-webkit-scrollbar-track {
-			background: #f5f5f5 !important;
+		/* ===== JAVASCRIPT/TYPESCRIPT SPECIFIC ===== */
+		/* Console, document, window */
+		.language-javascript .hljs-variable.language_,
+		.language-typescript .hljs-variable.language_ {
+			color: #9cdcfe;
+		}
+		/* Arrow functions */
+		.language-javascript .hljs-function .hljs-params,
+		.language-typescript .hljs-function .hljs-params {
+			color: #9cdcfe;
 		}
 		
-		body.light-theme ::-webkit-scrollbar-thumb,
-		body.light-theme *::-webkit-scrollbar-thumb {
-			background: #c1c1c1 !important;
-			border-radius: 5px;
+		/* ===== SYMBOLS & SPECIAL ===== */
+		.hljs-symbol,
+		.hljs-bullet,
+		.hljs-link {
+			color: #569cd6;
 		}
 		
-		body.light-theme ::-webkit-scrollbar-thumb:hover,
-		body.light-theme *::-webkit-scrollbar-thumb:hover {
-			background: #a8a8a8 !important;
+		/* ===== DIFF HIGHLIGHTING ===== */
+		.hljs-deletion {
+			color: #ce9178;
+			background-color: rgba(206, 145, 120, 0.15);
+		}
+		.hljs-addition {
+			color: #b5cea8;
+			background-color: rgba(181, 206, 168, 0.15);
 		}
 		
-		body.light-theme ::-webkit-scrollbar-corner,
-		body.light-theme *::-webkit-scrollbar-corner {
-			background: #f5f5f5 !important;
+		/* ===== EMPHASIS ===== */
+		.hljs-emphasis {
+			font-style: italic;
 		}
-
-		/* ===== TOC LIST ===== */
-		.toc-list {
-			list-style: none;
-			padding: 0;
-			margin: 0;
+		.hljs-strong {
+			font-weight: bold;
 		}
 		
-		.toc-list .toc-list {
-			padding-left: 16px;
-			margin-top: 4px;
-			overflow: hidden;
-			transition: max-height 0.3s ease;
+		/* ===== SECTION HEADERS (for some langs) ===== */
+		.hljs-section {
+			color: #569cd6;
+			font-weight: bold;
 		}
 		
-		.toc-item {
-			margin: 2px 0;
+		body.light-theme .hljs {
+			color: #24292e;
+			background: transparent;
+		}
+		
+		body.light-theme .hljs-comment,
+		body.light-theme .hljs-quote,
+		body.light-theme .hljs-shebang {
+			color: #6a737d;
+			font-style: italic;
+		}
+		
+		body.light-theme .hljs-keyword,
+		body.light-theme .hljs-selector-tag,
+		body.light-theme .hljs-reserved {
+			color: #d73a49;
 		}
 		
-		.toc-item.collapsed > .toc-list {
-			max-height: 0;
+		body.light-theme .hljs-literal,
+		body.light-theme .hljs-constant {
+			color: #005cc5;
 		}
 		
-		.toc-item:not(.collapsed) > .toc-list {
-			max-height: 2000px;
+		body.light-theme .hljs-string,
+		body.light-theme .hljs-doctag,
+		body.light-theme .hljs-regexp {
+			color: #032f62;
 		}
 		
-		.toc-toggle {
-			display: inline-block;
-			width: 16px;
-			font-size: 10px;
-			cursor: pointer;
-			color: var(--vscode-icon-foreground, #c5c5c5);
-			user-select: none;
-			transition: transform 0.2s ease;
+		body.light-theme .hljs-number {
+			color: #005cc5;
 		}
 		
-		.toc-item.collapsed > .toc-toggle {
-			transform: rotate(-90deg);
+		body.light-theme .hljs-title,
+		body.light-theme .hljs-title.function_,
+		body.light-theme .hljs-function .hljs-title {
+			color: #6f42c1;
 		}
 		
-		.toc-link {
-			color: var(--vscode-textLink-foreground, #3794ff);
-			text-decoration: none;
-			font-size: 0.8em;
-			display: inline;
-			padding: 2px 4px;
-			border-radius: 3px;
-			transition: background-color 0.15s ease;
-			word-wrap: break-word;
-			word-break: break-word;
-			line-height: 1.4;
+		body.light-theme .hljs-type,
+		body.light-theme .hljs-built_in,
+		body.light-theme .hljs-builtin-name,
+		body.light-theme .hljs-class .hljs-title,
+		body.light-theme .hljs-title.class_ {
+			color: #6f42c1;
 		}
 		
-		.toc-link:hover {
-			background-color: var(--vscode-list-hoverBackground, #2a2d2e);
-			text-decoration: none;
+		body.light-theme .hljs-variable,
+		body.light-theme .hljs-template-variable,
+		body.light-theme .hljs-params {
+			color: #e36209;
 		}
 		
-		.toc-link[data-level="1"] {
-			font-weight: 600;
-			color: var(--vscode-editor-foreground);
+		body.light-theme .hljs-property,
+		body.light-theme .hljs-attr,
+		body.light-theme .hljs-attribute {
+			color: #005cc5;
 		}
 		
-		.toc-link[data-level="2"] {
-			font-weight: 500;
+		body.light-theme .hljs-meta,
+		body.light-theme .hljs-decorator {
+			color: #6f42c1;
 		}
 		
-		/* ===== FLOATING TOGGLE BUTTON ===== */
-		.toc-floating-toggle {
-			position: fixed;
-			top: 12px;
-			${isLeft ? "left" : "right"}: 12px;
-			z-index: 1000;
-			background-color: var(--vscode-button-background, #0e639c);
-			color: var(--vscode-button-foreground, #ffffff);
-			border: none;
-			border-radius: 6px;
-			padding: 8px 10px;
-			cursor: pointer;
-			align-items: center;
-			justify-content: center;
-			box-shadow: 0 2px 8px rgba(0,0,0,0.4);
-			transition: background-color 0.2s ease, transform 0.2s ease, opacity 0.2s ease;
-			display: flex;
+		body.light-theme .hljs-name,
+		body.light-theme .hljs-tag {
+			color: #22863a;
 		}
 		
-		.toc-floating-toggle:hover {
-			background-color: var(--vscode-button-hoverBackground, #1177bb);
-			transform: scale(1.05);
+		body.light-theme .hljs-selector-class,
+		body.light-theme .hljs-selector-id {
+			color: #6f42c1;
 		}
 		
-		.toc-floating-toggle svg {
-			width: 22px;
-			height: 22px;
-			fill: currentColor;
+		body.light-theme .hljs-symbol,
+		body.light-theme .hljs-bullet,
+		body.light-theme .hljs-link {
+			color: #005cc5;
 		}
 		
-		/* Hide hamburger when TOC is visible */
-		.toc-floating-toggle.hidden {
-			opacity: 0;
-			pointer-events: none;
+		body.light-theme .hljs-deletion {
+			color: #b31d28;
+			background-color: #ffeef0;
 		}
 		
-		/* ===== POSITION SWITCHER ===== */
-		.position-switcher {
-			display: flex;
-			gap: 2px;
-			background: var(--vscode-input-background, #3c3c3c);
-			border-radius: 4px;
-			padding: 2px;
+		body.light-theme .hljs-addition {
+			color: #22863a;
+			background-color: #e6ffed;
 		}
 		
-		.position-btn {
-			background: transparent;
-			border: none;
-			color: var(--vscode-input-foreground, #cccccc);
-			cursor: pointer;
-			padding: 4px 8px;
-			border-radius: 3px;
-			font-size: 11px;
-			transition: background-color 0.15s ease;
+		body.light-theme .hljs-operator,
+		body.light-theme .hljs-punctuation {
+			color: #24292e;
 		}
 		
-		.position-btn:hover {
-			background-color: var(--vscode-toolbar-hoverBackground, #5a5d5e50);
+		body.light-theme .hljs-section {
+			color: #005cc5;
+			font-weight: bold;
 		}
 		
-		.position-btn.active {
-			background-color: var(--vscode-button-background, #0e639c);
-			color: var(--vscode-button-foreground, #ffffff);
+		body.light-theme .hljs-emphasis {
+			font-style: italic;
 		}
 		
-		/* ===== CONTENT AREA ===== */
-		.content-area {
-			flex: 1;
-			padding: 20px 40px;
-			max-width: 900px;
-			margin: 0 auto;
-			overflow-y: auto;
-			height: 100vh;
-		}
+		body.light-theme .hljs-strong {
+			font-weight: bold;
+		}`;
+}
+
+function getWebviewContent(
+  webview: vscode.Webview,
+  extensionUri: vscode.Uri,
+  document: vscode.TextDocument,
+  viewDefaults: ViewDefaults
+): string {
+  const { fontSize, tocPosition } = viewDefaults;
+  const isLeft = tocPosition === "left";
+  const nonce = getNonce();
+  const mermaidUri = webview.asWebviewUri(
+    vscode.Uri.joinPath(extensionUri, "dist", "mermaid.min.js")
+  );
+  const katexStylesUri = webview.asWebviewUri(
+    vscode.Uri.joinPath(extensionUri, "dist", "katex", "katex.min.css")
+  );
+  const csp = [
+    "default-src 'none'",
+    `img-src ${webview.cspSource} https: data:`,
+    `media-src ${webview.cspSource} https: data:`,
+    `style-src ${webview.cspSource} 'unsafe-inline'`,
+    `font-src ${webview.cspSource}`,
+    `script-src 'nonce-${nonce}'`,
+  ].join("; ");
+
+  // Start in the configured or VS Code theme's colors; a panel's own theme
+  // is applied by the script
+  const colorThemeKind = getColorThemeKind();
+  const isHighContrast =
+    colorThemeKind === "highContrast" || colorThemeKind === "highContrastLight";
+  const isLightTheme =
+    viewDefaults.defaultTheme === "auto" || isHighContrast
+      ? colorThemeKind === "light" || colorThemeKind === "highContrastLight"
+      : viewDefaults.defaultTheme === "light";
+  const codeThemeUrls = getCodeThemeUrls(webview, extensionUri);
+  const codeThemeUrl = isLightTheme ? codeThemeUrls.light : codeThemeUrls.dark;
+
+  // Styles and scripts of other extensions, loaded after our own, then the
+  // user's custom ones
+  const contributions = getPreviewContributions();
+  const contributedStyles = contributions.styles
+    .map(
+      (uri) =>
+        `\t<link rel="stylesheet" href="${escapeHtml(webview.asWebviewUri(uri).toString())}">`
+    )
+    .join("\n");
+  const customStyles = getCustomStyleUrls(webview, document)
+    .map(
+      (url) =>
+        `\t<link rel="stylesheet" class="custom-style" href="${escapeHtml(url)}">`
+    )
+    .join("\n");
+  const contributedScripts = [
+    ...contributions.scripts,
+    ...getCustomScripts(document),
+  ]
+    .map(
+      (uri) =>
+        `\t<script nonce="${nonce}" src="${escapeHtml(webview.asWebviewUri(uri).toString())}"></script>`
+    )
+    .join("\n");
+  const bodyClass = [
+    isLightTheme ? "light-theme" : "",
+    isHighContrast ? "high-contrast" : "",
+    codeThemeUrl ? "custom-code-theme" : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="${csp}">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>Markdown Preview</title>
+	<link rel="stylesheet" href="${katexStylesUri}">
+	<style>
+${getPreviewStyles(fontSize, tocPosition)}
+	</style>
+	<style id="defaultCodeTheme"${codeThemeUrl ? ' media="not all"' : ""}>
+${getDefaultCodeThemeStyles()}
+	</style>
+	<link rel="stylesheet" id="codeThemeLink"${codeThemeUrl ? ` href="${codeThemeUrl}"` : ""}>
+${contributedStyles}
+${customStyles}
+</head>
+<body class="${bodyClass}">
+	<div class="find-bar hidden" id="findBar" role="search">
+		<input type="text" id="findInput" placeholder="Find" aria-label="Find in preview" spellcheck="false">
+		<button class="find-option" id="findCaseBtn" title="Match Case" aria-pressed="false">Aa</button>
+		<button class="find-option" id="findWordBtn" title="Match Whole Word" aria-pressed="false"><u>ab</u></button>
+		<button class="find-option" id="findRegexBtn" title="Use Regular Expression" aria-pressed="false">.*</button>
+		<span class="find-count" id="findCount" aria-live="polite"></span>
+		<button class="find-nav" id="findPrevBtn" title="Previous Match (Shift+Enter)" disabled>&#8593;</button>
+		<button class="find-nav" id="findNextBtn" title="Next Match (Enter)" disabled>&#8595;</button>
+		<button class="find-nav" id="findCloseBtn" title="Close (Escape)">&#10005;</button>
+	</div>
+	
+	<button class="toc-floating-toggle hidden" id="tocFloatingToggle" title="Toggle table of contents">
+		<svg viewBox="0 0 24 24"><path d="M3 18h18v-2H3v2zm0-5h18v-2H3v2zm0-7v2h18V6H3z"/></svg>
+	</button>
+	
+	<div class="main-container" id="mainContainer">
+		<aside class="toc-sidebar" id="tocSidebar">
+			<div class="toc-resize-handle" id="tocResizeHandle"></div>
+			<div class="toc-header">
+				<span class="toc-title">Contents</span>
+				<span class="reading-time" id="readingTime"></span>
+				<div class="toc-controls">
+					<div class="font-size-controls">
+						<button class="font-btn" id="fontDecreaseBtn" title="Decrease font size">−</button>
+						<span id="fontSizeDisplay">${fontSize}px</span>
+						<button class="font-btn" id="fontIncreaseBtn" title="Increase font size">+</button>
+					</div>
+					<button class="toc-btn" title="Expand/Collapse all" id="expandCollapseBtn">
+						<svg viewBox="0 0 16 16" id="expandCollapseIcon"><path d="M3 4l5 5 5-5 1 1-6 6-6-6z"/></svg>
+					</button>
+					<button class="toc-btn" id="tocHideBtn" title="Hide TOC">
+						<svg viewBox="0 0 16 16"><path d="M8 8.707l3.646 3.647.708-.707L8.707 8l3.647-3.646-.707-.708L8 7.293 4.354 3.646l-.708.708L7.293 8l-3.647 3.646.708.708L8 8.707z"/></svg>
+					</button>
+				</div>
+				<div class="reading-progress" title="Reading progress">
+					<div class="reading-progress-bar" id="readingProgressBar"></div>
+				</div>
+			</div>
+			<nav class="toc-content" id="tocContent"></nav>
+			<div class="toc-footer">
+				<button class="theme-toggle" title="Toggle light/dark theme" id="themeToggle">🌙</button>
+				<button class="toc-btn" id="exportBtn" title="Export to HTML or PDF">
+					<svg viewBox="0 0 16 16"><path d="M8 11.5L4 7.5l.7-.7L7.5 9.6V2h1v7.6l2.8-2.8.7.7-4 4zM3 13h10v1H3z"/></svg>
+				</button>
+				<button class="toc-btn active hidden" id="unlinkBtn" title="Stop comparing with the linked preview">
+					<svg viewBox="0 0 16 16"><path d="M4.4 11.6a1.8 1.8 0 0 1 0-2.6L6 7.4l-.7-.7-1.6 1.6a2.8 2.8 0 0 0 4 4l1.6-1.6-.7-.7L7 11.6a1.8 1.8 0 0 1-2.6 0zM12.3 3.7a2.8 2.8 0 0 0-4 0L6.7 5.3l.7.7L9 4.4A1.8 1.8 0 0 1 11.6 7L10 8.6l.7.7 1.6-1.6a2.8 2.8 0 0 0 0-4zM2 2.7l.7-.7 11.3 11.3-.7.7z"/></svg>
+				</button>
+				<button class="toc-btn" id="resetViewBtn" title="Reset view settings of this preview">
+					<svg viewBox="0 0 16 16"><path d="M2.5 2v4h4l-1.6-1.6A4.5 4.5 0 1 1 3.5 8h-1A5.5 5.5 0 1 0 4.2 3.7z"/></svg>
+				</button>
+				<button class="toc-btn" id="followBtn" title="Pinned to this document. Click to follow the active editor">
+					<svg viewBox="0 0 16 16"><path d="M10 1l5 5-1 1-1-.5-3 3 .5 2.5-1 1L6 9.5 2 14l-.5-.5L6 9.5 2.5 6l1-1L6 5.5l3-3L8.5 1.5z"/></svg>
+				</button>
+				<div class="position-switcher">
+					<button class="position-btn ${
+            isLeft ? "active" : ""
+          }" data-position="left" title="TOC on left">◀</button>
+					<button class="position-btn ${
+            !isLeft ? "active" : ""
+          }" data-position="right" title="TOC on right">▶</button>
+				</div>
+			</div>
+		</aside>
 		
-		/* ===== MARKDOWN CONTENT STYLES ===== */
-		/* Line hover indicator for all block elements */
-		h1, h2, h3, h4, h5, h6, p, ul, ol, blockquote, table, pre {
-			position: relative;
-			border-left: 3px solid transparent;
-			padding-left: 12px;
-			margin-left: -15px;
-		}
+		<main class="content-area" id="contentArea"></main>
+	</div>
+	
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+		let currentFontSize = ${fontSize};
+		let isExpanded = true;
+		let isDarkTheme = ${!isLightTheme};
+		// Kind of the VS Code color theme, and the highlight theme stylesheets
+		// for light and dark previews (null for the built-in colors)
+		let colorThemeKind = '${colorThemeKind}';
+		let codeThemeUrls = ${JSON.stringify(codeThemeUrls)};
 		
-		h1:hover, h2:hover, h3:hover, h4:hover, h5:hover, h6:hover,
-		p:hover, ul:hover, ol:hover, blockquote:hover, table:hover, pre:hover {
-			border-left-color: var(--vscode-textLink-foreground, #3794ff);
+		// Per-panel state, handed back by VS Code when the panel is restored.
+		// View settings changed in this panel (font size, TOC width and
+		// position, theme, expand state) are kept here too, so every preview
+		// has its own; unset ones fall back to the configured defaults.
+		const panelState = vscode.getState() || {};
+		const restoringScroll = typeof panelState.line === 'number';
+		const viewStateKeys = ['fontSize', 'tocPosition', 'tocWidth', 'themeOverride', 'tocExpanded', 'tocHidden', 'tocCollapsed'];
+		let viewDefaults = ${JSON.stringify(viewDefaults)};
+		
+		function saveState(changes) {
+			Object.assign(panelState, changes);
+			vscode.setState(panelState);
 		}
 		
-		h1, h2, h3, h4, h5, h6 {
-			margin-top: 1em;
-			margin-bottom: 0.3em;
-			font-weight: 700;
-			line-height: 1.3;
+		// Keep a change made with the controls in this panel, or write it to the
+		// settings when controlsUpdateSettings is on. A setting becomes the
+		// default of every panel, so this panel drops its own value.
+		function saveView(key, value, settingKey, settingValue) {
+			if (viewDefaults.controlsUpdateSettings === 'off') {
+				saveState({ [key]: value });
+				return;
+			}
+			settingKey = settingKey || key;
+			settingValue = settingKey === key ? value : settingValue;
+			viewDefaults[settingKey] = settingValue;
+			saveState({ [key]: undefined });
+			vscode.postMessage({ type: 'updateSetting', key: settingKey, value: settingValue });
 		}
-		h1 { font-size: 1.75em; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 0.25em; }
-		h2 { font-size: 1.35em; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 0.2em; }
-		h3 { font-size: 1.15em; }
-		h4 { font-size: 1.05em; }
-		h5 { font-size: 1em; }
-		h6 { font-size: 0.95em; color: var(--vscode-descriptionForeground); }
-		p { margin: 0.6em 0; }
 		
-		/* Inline code */
-		code {
-			background-color: var(--vscode-textCodeBlock-background, rgba(110, 118, 129, 0.4));
-			padding: 0.2em 0.4em;
-			border-radius: 3px;
-			font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
-			font-size: 0.85em;
+		function setTocHidden(isHidden) {
+			document.getElementById('mainContainer').classList.toggle('toc-hidden', isHidden);
+			// Show hamburger when TOC is hidden, hide it when TOC is visible
+			document.getElementById('tocFloatingToggle').classList.toggle('hidden', !isHidden);
 		}
 		
-		/* Code block container - VS Code dark */
-		pre {
-			background-color: #1a1a1a;
-			padding: 14px 16px;
-			overflow: auto;
-			border-radius: 4px;
-			margin: 0.7em 0;
+		// Toggle TOC visibility
+		function toggleToc() {
+			const isHidden = !document.getElementById('mainContainer').classList.contains('toc-hidden');
+			setTocHidden(isHidden);
+			saveView('tocHidden', isHidden, 'tocVisible', !isHidden);
 		}
 		
-		pre code {
-			background-color: transparent;
-			padding: 0;
-			font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
-			font-size: 0.88em;
-			line-height: 1.5;
-			display: block;
+		// Font size controls
+		function increaseFontSize() {
+			if (currentFontSize < 32) {
+				currentFontSize += 2;
+				updateFontSize();
+				saveView('fontSize', currentFontSize);
+			}
 		}
 		
-		/* Highlight.js VS Code Dark+ Theme - Enhanced for all major languages */
-		.hljs {
-			color: #d4d4d4;
+		function decreaseFontSize() {
+			if (currentFontSize > 10) {
+				currentFontSize -= 2;
+				updateFontSize();
+				saveView('fontSize', currentFontSize);
+			}
 		}
 		
-		/* ===== COMMENTS ===== */
-		/* Green italic - works for all languages */
-		.hljs-comment,
-		.hljs-quote,
-		.hljs-shebang {
-			color: #6a9955;
-			font-style: italic;
+		function updateFontSize() {
+			document.documentElement.style.setProperty('--preview-font-size', currentFontSize + 'px');
+			document.getElementById('fontSizeDisplay').textContent = currentFontSize + 'px';
 		}
 		
-		/* ===== KEYWORDS ===== */
-		/* Blue - if, for, while, def, class, import, return, async, await, etc. */
-		.hljs-keyword,
-		.hljs-selector-tag,
-		.hljs-reserved {
-			color: #569cd6;
+		// Color theme: the preview follows VS Code unless the toggle overrides
+		// it. High contrast themes can't be overridden.
+		function isHighContrast() {
+			return colorThemeKind === 'highContrast' || colorThemeKind === 'highContrastLight';
 		}
 		
-		/* ===== CONSTANTS & LITERALS ===== */
-		/* Blue - True, False, None, null, undefined, NaN, Infinity */
-		.hljs-literal,
-		.hljs-constant {
-			color: #569cd6;
+		function isVsCodeThemeDark() {
+			return colorThemeKind === 'dark' || colorThemeKind === 'highContrast';
 		}
 		
-		/* ===== TYPES & CLASSES ===== */
-		/* Teal - int, str, list, dict, Array, Object, Promise, etc. */
-		.hljs-type,
-		.hljs-built_in,
-		.hljs-builtin-name,
-		.hljs-class .hljs-title,
-		.hljs-title.class_,
-		.hljs-title.class_.inherited__ {
-			color: #4ec9b0;
+		// The VS Code theme's variant, unless the settings pick one
+		function getDefaultTheme() {
+			if (viewDefaults.defaultTheme !== 'auto') {
+				return viewDefaults.defaultTheme;
+			}
+			return isVsCodeThemeDark() ? 'dark' : 'light';
 		}
 		
-		/* ===== NUMBERS ===== */
-		/* Light green */
-		.hljs-number {
-			color: #b5cea8;
+		function applyTheme() {
+			const override = isHighContrast() ? null : panelState.themeOverride;
+			const wasDark = isDarkTheme;
+			isDarkTheme = isHighContrast() ? isVsCodeThemeDark() : (override || getDefaultTheme()) === 'dark';
+			document.body.classList.toggle('light-theme', !isDarkTheme);
+			document.body.classList.toggle('high-contrast', isHighContrast());
+			
+			const toggle = document.getElementById('themeToggle');
+			toggle.textContent = isDarkTheme ? '🌙' : '☀️';
+			toggle.disabled = isHighContrast();
+			const other = isDarkTheme ? 'light' : 'dark';
+			toggle.title = isHighContrast()
+				? 'Following the high contrast theme'
+				: override
+					? 'Click to go back to the default theme'
+					: viewDefaults.defaultTheme === 'auto'
+						? 'Following the VS Code theme. Click to switch to ' + other
+						: 'Using the ' + getDefaultTheme() + ' theme from the settings. Click to switch to ' + other;
+			
+			applyCodeTheme();
+			if (wasDark !== isDarkTheme) {
+				renderMermaidDiagrams(true);
+			}
 		}
 		
-		/* ===== STRINGS ===== */
-		/* Orange - single, double, template strings, regex */
-		.hljs-string,
-		.hljs-doctag,
-		.hljs-regexp,
-		.hljs-template-tag,
-		.hljs-subst {
-			color: #ce9178;
+		// Use the highlight theme chosen for the current light or dark preview
+		function applyCodeTheme() {
+			const url = isDarkTheme ? codeThemeUrls.dark : codeThemeUrls.light;
+			const link = document.getElementById('codeThemeLink');
+			document.getElementById('defaultCodeTheme').media = url ? 'not all' : '';
+			document.body.classList.toggle('custom-code-theme', !!url);
+			if (!url) {
+				link.removeAttribute('href');
+			} else if (link.getAttribute('href') !== url) {
+				link.setAttribute('href', url);
+			}
 		}
 		
-		/* ===== FUNCTIONS ===== */
-		/* Yellow - function names, method names */
-		.hljs-title,
-		.hljs-title.function_,
-		.hljs-function .hljs-title,
-		.hljs-title.invoked__ {
-			color: #dcdcaa;
+		// Replace the custom stylesheets, e.g. with a reloaded version
+		function setCustomStyles(urls) {
+			document.querySelectorAll('link.custom-style').forEach(link => link.remove());
+			urls.forEach(url => {
+				const link = document.createElement('link');
+				link.rel = 'stylesheet';
+				link.className = 'custom-style';
+				link.href = url;
+				document.head.appendChild(link);
+			});
 		}
 		
-		/* ===== VARIABLES & PARAMETERS ===== */
-		/* Light blue */
-		.hljs-variable,
-		.hljs-template-variable,
-		.hljs-params,
-		.hljs-variable.language_ {
-			color: #9cdcfe;
+		// Switching back to the default variant ends the override; in the
+		// settings, picking the VS Code theme's variant means following it
+		function toggleTheme() {
+			const next = isDarkTheme ? 'light' : 'dark';
+			saveView(
+				'themeOverride', next === getDefaultTheme() ? undefined : next,
+				'defaultTheme', (next === 'dark') === isVsCodeThemeDark() ? 'auto' : next
+			);
+			applyTheme();
 		}
 		
-		/* ===== PROPERTIES & ATTRIBUTES ===== */
-		/* Light blue - console, document, window, this, self */
-		.hljs-property,
-		.hljs-attr,
-		.hljs-attribute {
-			color: #9cdcfe;
+		function setExpanded(expanded) {
+			const items = document.querySelectorAll('.toc-item.has-children');
+			const icon = document.getElementById('expandCollapseIcon');
+			
+			if (expanded) {
+				items.forEach(item => item.classList.remove('collapsed'));
+				icon.innerHTML = '<path d="M3 4l5 5 5-5 1 1-6 6-6-6z"/>';
+			} else {
+				items.forEach(item => item.classList.add('collapsed'));
+				icon.innerHTML = '<path d="M3 12l5-5 5 5 1-1-6-6-6 6z"/>';
+			}
+			isExpanded = expanded;
 		}
 		
-		/* ===== OPERATORS & PUNCTUATION ===== */
-		.hljs-operator {
-			color: #d4d4d4;
+		// Single expand/collapse toggle
+		function toggleExpandCollapse() {
+			setExpanded(!isExpanded);
+			saveState({ tocExpanded: isExpanded });
+			saveTocState();
 		}
-		.hljs-punctuation {
-			color: #d4d4d4;
+		
+		// Set TOC position (left or right)
+		let tocPosition = viewDefaults.tocPosition;
+		function setPosition(pos) {
+			tocPosition = pos;
+			document.querySelectorAll('.position-btn').forEach(btn => {
+				btn.classList.toggle('active', btn.getAttribute('data-position') === pos);
+			});
+			
+			const container = document.getElementById('mainContainer');
+			const sidebar = document.getElementById('tocSidebar');
+			const floatingBtn = document.querySelector('.toc-floating-toggle');
+			const handle = document.getElementById('tocResizeHandle');
+			
+			if (pos === 'left') {
+				container.style.flexDirection = 'row';
+				handle.style.right = '0';
+				handle.style.left = 'auto';
+				sidebar.style.borderRight = '1px solid var(--vscode-panel-border, #3c3c3c)';
+				sidebar.style.borderLeft = 'none';
+				floatingBtn.style.left = '12px';
+				floatingBtn.style.right = 'auto';
+			} else {
+				container.style.flexDirection = 'row-reverse';
+				handle.style.left = '0';
+				handle.style.right = 'auto';
+				sidebar.style.borderLeft = '1px solid var(--vscode-panel-border, #3c3c3c)';
+				sidebar.style.borderRight = 'none';
+				floatingBtn.style.right = '12px';
+				floatingBtn.style.left = 'auto';
+			}
 		}
 		
-		/* ===== DECORATORS & META ===== */
-		/* Purple - @decorator, @property, etc. */
-		.hljs-meta,
-		.hljs-decorator,
-		.hljs-meta .hljs-keyword,
-		.hljs-meta .hljs-string {
-			color: #c586c0;
+		// Toolbar buttons
+		document.getElementById('tocFloatingToggle').addEventListener('click', toggleToc);
+		document.getElementById('tocHideBtn').addEventListener('click', toggleToc);
+		document.getElementById('fontDecreaseBtn').addEventListener('click', decreaseFontSize);
+		document.getElementById('fontIncreaseBtn').addEventListener('click', increaseFontSize);
+		document.getElementById('expandCollapseBtn').addEventListener('click', toggleExpandCollapse);
+		document.getElementById('themeToggle').addEventListener('click', toggleTheme);
+		// Exports look like this panel: its theme, font size and TOC side
+		function requestExport(format) {
+			vscode.postMessage({
+				type: 'export',
+				format: format,
+				view: { theme: isDarkTheme ? 'dark' : 'light', fontSize: currentFontSize, tocPosition: tocPosition }
+			});
 		}
 		
-		/* ===== HTML/XML/JSX TAGS ===== */
-		.hljs-name,
-		.hljs-tag {
-			color: #569cd6;
+		document.getElementById('exportBtn').addEventListener('click', function() {
+			requestExport();
+		});
+		document.getElementById('followBtn').addEventListener('click', function() {
+			vscode.postMessage({ type: 'toggleFollow' });
+		});
+		document.getElementById('resetViewBtn').addEventListener('click', resetView);
+		document.getElementById('unlinkBtn').addEventListener('click', function() {
+			vscode.postMessage({ type: 'unlink' });
+		});
+		document.querySelectorAll('.position-btn').forEach(btn => {
+			btn.addEventListener('click', function() {
+				setPosition(this.getAttribute('data-position'));
+				saveView('tocPosition', tocPosition);
+			});
+		});
+		
+		// Toggle individual TOC item and smooth scroll to heading.
+		// Delegated so the handlers survive TOC updates.
+		document.getElementById('tocContent').addEventListener('click', function(e) {
+			const toggle = e.target.closest('.toc-toggle');
+			if (toggle) {
+				e.stopPropagation();
+				toggle.closest('.toc-item').classList.toggle('collapsed');
+				saveTocState();
+				return;
+			}
+			
+			const link = e.target.closest('.toc-link');
+			if (link) {
+				e.preventDefault();
+				const targetId = decodeURIComponent(link.getAttribute('href').substring(1));
+				const target = document.getElementById(targetId);
+				if (target) {
+					target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+					if (target.hasAttribute('data-line')) {
+						vscode.postMessage({ type: 'tocNavigate', line: Number(target.getAttribute('data-line')) });
+					}
+				}
+			}
+		});
+		
+		// Local links open in VS Code; web links keep their default handling
+		document.getElementById('contentArea').addEventListener('click', function(e) {
+			const link = e.target.closest('a[href]');
+			if (!link) {
+				return;
+			}
+			
+			const href = link.getAttribute('href');
+			if (href.startsWith('#')) {
+				e.preventDefault();
+				const target = document.getElementById(decodeURIComponent(href.substring(1)));
+				if (target) {
+					target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+				}
+			} else if (!/^[a-z][a-z0-9+.-]*:/i.test(href) && !href.startsWith('//')) {
+				e.preventDefault();
+				vscode.postMessage({ type: 'openLink', href });
+			}
+		});
+		
+		// Clicking or double-clicking an element jumps to its source line;
+		// the extension decides which of the two does it
+		function postSourceClick(e) {
+			if (e.target.closest('a, summary, input, button')) {
+				return;
+			}
+			// Selecting text with the mouse is not a click on an element
+			if (e.type === 'click' && !window.getSelection().isCollapsed) {
+				return;
+			}
+			const element = e.target.closest('[data-line]');
+			if (element) {
+				vscode.postMessage({ type: 'editSource', line: Number(element.getAttribute('data-line')), trigger: e.type });
+			}
 		}
-		.hljs-tag .hljs-attr {
-			color: #9cdcfe;
+		document.getElementById('contentArea').addEventListener('click', postSourceClick);
+		document.getElementById('contentArea').addEventListener('dblclick', postSourceClick);
+		
+		// ===== INCREMENTAL CONTENT UPDATES =====
+		let renderedBlocks = [];
+		let blockNodes = [];
+		let renderedToc = null;
+		
+		// Replace only the blocks between the unchanged prefix and suffix
+		function patchContent(blocks) {
+			const contentArea = document.getElementById('contentArea');
+			let start = 0;
+			while (start < blocks.length && start < renderedBlocks.length && blocks[start] === renderedBlocks[start]) {
+				start++;
+			}
+			
+			let oldEnd = renderedBlocks.length - 1;
+			let newEnd = blocks.length - 1;
+			while (oldEnd >= start && newEnd >= start && renderedBlocks[oldEnd] === blocks[newEnd]) {
+				oldEnd--;
+				newEnd--;
+			}
+			
+			const nextBlock = blockNodes[oldEnd + 1];
+			const anchor = nextBlock && nextBlock.length > 0 ? nextBlock[0] : null;
+			
+			for (let i = start; i <= oldEnd; i++) {
+				blockNodes[i].forEach(node => node.remove());
+			}
+			
+			const inserted = [];
+			const template = document.createElement('template');
+			for (let i = start; i <= newEnd; i++) {
+				template.innerHTML = blocks[i];
+				const nodes = Array.from(template.content.childNodes);
+				nodes.forEach(node => contentArea.insertBefore(node, anchor));
+				inserted.push(nodes);
+			}
+			
+			blockNodes.splice(start, oldEnd - start + 1, ...inserted);
+			renderedBlocks = blocks;
 		}
-		.hljs-tag .hljs-string {
-			color: #ce9178;
+		
+		// Turn block-relative line offsets into absolute source lines
+		function applySourceLines(lines) {
+			blockNodes.forEach((nodes, i) => {
+				nodes.forEach(node => {
+					if (node.nodeType !== Node.ELEMENT_NODE) {
+						return;
+					}
+					if (!node.hasAttribute('data-line-offset')) {
+						node.setAttribute('data-line-offset', '0');
+					}
+					node.setAttribute('data-line', lines[i]);
+					node.querySelectorAll('[data-line-offset]').forEach(el => {
+						el.setAttribute('data-line', lines[i] + Number(el.getAttribute('data-line-offset')));
+					});
+				});
+			});
+			lineElements = null;
 		}
 		
-		/* ===== CSS SPECIFIC ===== */
-		.hljs-selector-class,
-		.hljs-selector-id {
-			color: #d7ba7d;
+		// Replace the TOC while keeping each entry's collapse state
+		function patchToc(tocHtml) {
+			if (tocHtml === renderedToc) {
+				return;
+			}
+			
+			const tocContent = document.getElementById('tocContent');
+			const collapsed = new Map();
+			if (renderedToc === null && Array.isArray(panelState.tocCollapsed)) {
+				// First TOC of a restored panel: entries not saved as collapsed were expanded
+				const saved = new Set(panelState.tocCollapsed);
+				const parser = document.createElement('template');
+				parser.innerHTML = tocHtml;
+				parser.content.querySelectorAll('.toc-item.has-children > .toc-link').forEach(link => {
+					const href = link.getAttribute('href');
+					collapsed.set(href, saved.has(href));
+				});
+			}
+			tocContent.querySelectorAll('.toc-item.has-children').forEach(item => {
+				const link = item.querySelector(':scope > .toc-link');
+				if (link) {
+					collapsed.set(link.getAttribute('href'), item.classList.contains('collapsed'));
+				}
+			});
+			
+			tocContent.innerHTML = tocHtml;
+			tocContent.querySelectorAll('.toc-item.has-children').forEach(item => {
+				const link = item.querySelector(':scope > .toc-link');
+				const href = link ? link.getAttribute('href') : null;
+				const isCollapsed = collapsed.has(href) ? collapsed.get(href) : !isExpanded;
+				item.classList.toggle('collapsed', isCollapsed);
+			});
+			renderedToc = tocHtml;
+			saveTocState();
 		}
-		.hljs-selector-pseudo,
-		.hljs-selector-attr {
-			color: #d7ba7d;
+		
+		// Remember which TOC entries are collapsed in this panel
+		function saveTocState() {
+			if (renderedToc === null) {
+				return;
+			}
+			const collapsed = [];
+			document.querySelectorAll('.toc-item.has-children.collapsed > .toc-link').forEach(link => {
+				collapsed.push(link.getAttribute('href'));
+			});
+			saveState({ tocCollapsed: collapsed });
 		}
 		
-		/* ===== SQL SPECIFIC ===== */
-		/* SQL keywords in uppercase convention */
-		.language-sql .hljs-keyword {
-			color: #569cd6;
+		// ===== MERMAID DIAGRAMS =====
+		let mermaidLoader = null;
+		let mermaidCounter = 0;
+		
+		// Load the bundled mermaid script the first time a diagram appears
+		function loadMermaid() {
+			if (!mermaidLoader) {
+				mermaidLoader = new Promise((resolve, reject) => {
+					const script = document.createElement('script');
+					script.src = '${mermaidUri}';
+					script.nonce = '${nonce}';
+					script.onload = () => resolve(window.mermaid);
+					script.onerror = () => reject(new Error('Failed to load mermaid'));
+					document.head.appendChild(script);
+				});
+			}
+			return mermaidLoader;
 		}
-		.language-sql .hljs-built_in {
-			color: #4ec9b0;
+		
+		// Draw new diagrams, or all of them when the theme changes
+		async function renderMermaidDiagrams(force) {
+			const diagrams = Array.from(document.querySelectorAll('#contentArea .mermaid-diagram'))
+				.filter(diagram => force || !diagram.hasAttribute('data-rendered'));
+			if (diagrams.length === 0) {
+				return;
+			}
+			
+			let mermaid;
+			try {
+				mermaid = await loadMermaid();
+			} catch (error) {
+				diagrams.forEach(diagram => showMermaidError(diagram, error));
+				return;
+			}
+			mermaid.initialize({
+				startOnLoad: false,
+				securityLevel: 'strict',
+				theme: isDarkTheme ? 'dark' : 'default',
+			});
+			
+			for (const diagram of diagrams) {
+				const source = diagram.querySelector('.mermaid-source').textContent;
+				const id = 'mermaid-' + (++mermaidCounter);
+				diagram.setAttribute('data-rendered', '');
+				try {
+					const { svg } = await mermaid.render(id, source);
+					getMermaidOutput(diagram).innerHTML = svg;
+				} catch (error) {
+					showMermaidError(diagram, error);
+					// A failed render leaves its temporary container in the body
+					const leftover = document.getElementById('d' + id);
+					if (leftover) {
+						leftover.remove();
+					}
+				}
+			}
 		}
-		.language-sql .hljs-string {
-			color: #ce9178;
+		
+		function getMermaidOutput(diagram) {
+			let output = diagram.querySelector('.mermaid-output');
+			if (!output) {
+				output = document.createElement('div');
+				output.className = 'mermaid-output';
+				diagram.appendChild(output);
+			}
+			return output;
 		}
 		
-		/* ===== PYTHON SPECIFIC ===== */
-		/* Self keyword */
-		.language-python .hljs-variable.language_ {
-			color: #569cd6;
+		function showMermaidError(diagram, error) {
+			const box = document.createElement('div');
+			box.className = 'mermaid-error';
+			box.textContent = 'Mermaid error: ' + (error && error.message ? error.message : String(error));
+			const output = getMermaidOutput(diagram);
+			output.innerHTML = '';
+			output.appendChild(box);
 		}
-		/* Magic methods __init__, __str__ */
-		.language-python .hljs-title.function_.magic_ {
-			color: #dcdcaa;
+		
+		// ===== SCROLL SYNC =====
+		let lineElements = null;
+		let ignoreScrollUntil = 0;
+		let scrollFrame = null;
+		
+		function getLineElements() {
+			if (!lineElements) {
+				lineElements = Array.from(document.querySelectorAll('#contentArea [data-line]'))
+					.map(el => ({ el, line: Number(el.getAttribute('data-line')) }));
+			}
+			return lineElements;
 		}
 		
-		/* ===== JAVASCRIPT/TYPESCRIPT SPECIFIC ===== */
-		/* Console, document, window */
-		.language-javascript .hljs-variable.language_,
-		.language-typescript .hljs-variable.language_ {
-			color: #9cdcfe;
+		function getElementTop(el) {
+			const contentArea = document.getElementById('contentArea');
+			return el.getBoundingClientRect().top - contentArea.getBoundingClientRect().top + contentArea.scrollTop;
 		}
-		/* Arrow functions */
-		.language-javascript .hljs-function .hljs-params,
-		.language-typescript .hljs-function .hljs-params {
-			color: #9cdcfe;
+		
+		// Scroll so the given source line sits at the top, interpolating between elements
+		function scrollToLine(line) {
+			const elements = getLineElements();
+			if (elements.length === 0) {
+				return;
+			}
+			
+			let previous = null;
+			let next = null;
+			for (const entry of elements) {
+				if (entry.line <= line) {
+					previous = entry;
+				} else {
+					next = entry;
+					break;
+				}
+			}
+			
+			let top = 0;
+			if (previous) {
+				top = getElementTop(previous.el);
+				if (next && next.line > previous.line) {
+					const progress = (line - previous.line) / (next.line - previous.line);
+					top += progress * (getElementTop(next.el) - top);
+				}
+			}
+			
+			saveState({ line });
+			const contentArea = document.getElementById('contentArea');
+			const target = Math.max(0, Math.round(top));
+			if (Math.abs(contentArea.scrollTop - target) > 1) {
+				ignoreScrollUntil = Date.now() + 100;
+				contentArea.scrollTop = target;
+			}
 		}
 		
-		/* ===== SYMBOLS & SPECIAL ===== */
-		.hljs-symbol,
-		.hljs-bullet,
-		.hljs-link {
-			color: #569cd6;
+		// Source line shown at the top of the preview
+		function getLineAtScrollTop() {
+			const elements = getLineElements();
+			if (elements.length === 0) {
+				return null;
+			}
+			
+			const scrollTop = document.getElementById('contentArea').scrollTop;
+			let low = 0;
+			let high = elements.length - 1;
+			while (low < high) {
+				const mid = Math.ceil((low + high) / 2);
+				if (getElementTop(elements[mid].el) <= scrollTop) {
+					low = mid;
+				} else {
+					high = mid - 1;
+				}
+			}
+			
+			const previous = elements[low];
+			const previousTop = getElementTop(previous.el);
+			const next = elements.slice(low + 1).find(entry => entry.line > previous.line);
+			if (!next || scrollTop <= previousTop) {
+				return previous.line;
+			}
+			
+			const nextTop = getElementTop(next.el);
+			if (nextTop <= previousTop) {
+				return previous.line;
+			}
+			const progress = Math.min(1, (scrollTop - previousTop) / (nextTop - previousTop));
+			return Math.floor(previous.line + progress * (next.line - previous.line));
 		}
 		
-		/* ===== DIFF HIGHLIGHTING ===== */
-		.hljs-deletion {
-			color: #ce9178;
-			background-color: rgba(206, 145, 120, 0.15);
-		}
-		.hljs-addition {
-			color: #b5cea8;
-			background-color: rgba(181, 206, 168, 0.15);
+		// ===== LINKED COMPARISON SCROLLING =====
+		let isLinked = false;
+		let ignoreLinkedScrollUntil = 0;
+		
+		function getContentHeadings() {
+			return Array.from(document.querySelectorAll('#contentArea :is(h1, h2, h3, h4, h5, h6)[id]'));
 		}
 		
-		/* ===== EMPHASIS ===== */
-		.hljs-emphasis {
-			font-style: italic;
+		// Heading at the top of the preview, its position in the document and
+		// how far into its section the preview is scrolled
+		function getSectionAtScrollTop() {
+			const contentArea = document.getElementById('contentArea');
+			const headings = getContentHeadings();
+			const scrollTop = contentArea.scrollTop;
+			
+			// Last heading at or above the top, found by binary search
+			let index = -1;
+			let low = 0;
+			let high = headings.length - 1;
+			while (low <= high) {
+				const mid = Math.floor((low + high) / 2);
+				if (getElementTop(headings[mid]) <= scrollTop + 1) {
+					index = mid;
+					low = mid + 1;
+				} else {
+					high = mid - 1;
+				}
+			}
+			
+			const top = index >= 0 ? getElementTop(headings[index]) : 0;
+			const nextTop = index + 1 < headings.length ? getElementTop(headings[index + 1]) : contentArea.scrollHeight;
+			const progress = nextTop > top ? Math.min(1, Math.max(0, (scrollTop - top) / (nextTop - top))) : 0;
+			return { id: index >= 0 ? headings[index].id : null, index, progress };
 		}
-		.hljs-strong {
-			font-weight: bold;
+		
+		// Scroll to the linked panel's section: the heading with the same anchor,
+		// else the heading at the same position, e.g. in a translation
+		function scrollToSection(section) {
+			const contentArea = document.getElementById('contentArea');
+			const headings = getContentHeadings();
+			let index = headings.findIndex(heading => heading.id === section.id);
+			if (index === -1) {
+				index = Math.min(section.index, headings.length - 1);
+			}
+			
+			const top = index >= 0 ? getElementTop(headings[index]) : 0;
+			const nextTop = index + 1 < headings.length ? getElementTop(headings[index + 1]) : contentArea.scrollHeight;
+			const target = Math.max(0, Math.round(top + section.progress * (nextTop - top)));
+			if (Math.abs(contentArea.scrollTop - target) > 1) {
+				ignoreLinkedScrollUntil = Date.now() + 100;
+				contentArea.scrollTop = target;
+			}
+			highlightTocSection(index >= 0 ? headings[index].id : null);
 		}
 		
-		/* ===== SECTION HEADERS (for some langs) ===== */
-		.hljs-section {
-			color: #569cd6;
-			font-weight: bold;
+		function setLinked(message) {
+			isLinked = message.linked;
+			const unlinkBtn = document.getElementById('unlinkBtn');
+			unlinkBtn.classList.toggle('hidden', !isLinked);
+			unlinkBtn.title = isLinked ? 'Stop comparing with ' + message.partner : '';
+			if (isLinked && message.lead) {
+				vscode.postMessage({ type: 'linkedScroll', section: getSectionAtScrollTop() });
+			}
 		}
 		
-		blockquote {
-			margin: 0.6em 0;
-			padding: 0 1em;
-			color: var(--vscode-descriptionForeground);
-			border-left: 4px solid var(--vscode-textBlockQuote-border, #007acc);
+		// ===== ACTIVE SECTION AND READING PROGRESS =====
+		const WORDS_PER_MINUTE = 200;
+		let wordCount = 0;
+		let highlightedTocId = null;
+		
+		// Mark the TOC entry of the section at the top of the preview, expanding
+		// its collapsed parents and scrolling it into view within the TOC
+		function highlightTocSection(id) {
+			// Nothing to do unless the section changed or a TOC update dropped the mark
+			if (id === highlightedTocId && (!id || document.querySelector('#tocContent .active-section'))) {
+				return;
+			}
+			highlightedTocId = id;
+			document.querySelectorAll('.toc-link.active-section').forEach(link => link.classList.remove('active-section'));
+			if (!id) {
+				return;
+			}
+			
+			const link = Array.from(document.querySelectorAll('#tocContent .toc-link'))
+				.find(link => link.getAttribute('href') === '#' + id);
+			if (!link) {
+				return;
+			}
+			link.classList.add('active-section');
+			
+			let parent = link.closest('.toc-item').parentElement.closest('.toc-item');
+			while (parent) {
+				parent.classList.remove('collapsed');
+				parent = parent.parentElement.closest('.toc-item');
+			}
+			
+			const tocContent = document.getElementById('tocContent');
+			const linkTop = link.getBoundingClientRect().top - tocContent.getBoundingClientRect().top;
+			if (linkTop < 0 || linkTop + link.offsetHeight > tocContent.clientHeight) {
+				tocContent.scrollTop += linkTop - tocContent.clientHeight / 3;
+			}
 		}
-		a {
-			color: var(--vscode-textLink-foreground);
-			text-decoration: none;
+		
+		// Words of prose in the preview; code, diagrams and math markup are skipped
+		function countWords() {
+			const walker = document.createTreeWalker(document.getElementById('contentArea'), NodeFilter.SHOW_TEXT, {
+				acceptNode: node => node.parentElement.closest('pre, svg, .katex-mathml, .diff-removed')
+					? NodeFilter.FILTER_REJECT
+					: NodeFilter.FILTER_ACCEPT
+			});
+			let count = 0;
+			while (walker.nextNode()) {
+				const words = walker.currentNode.nodeValue.match(/\\S+/g);
+				count += words ? words.length : 0;
+			}
+			wordCount = count;
 		}
-		a:hover {
-			text-decoration: underline;
+		
+		function updateReadingProgress() {
+			const contentArea = document.getElementById('contentArea');
+			const scrollable = contentArea.scrollHeight - contentArea.clientHeight;
+			const progress = scrollable > 0 ? Math.min(1, contentArea.scrollTop / scrollable) : 1;
+			document.getElementById('readingProgressBar').style.width = (progress * 100).toFixed(1) + '%';
+			
+			const minutesLeft = Math.ceil(wordCount * (1 - progress) / WORDS_PER_MINUTE);
+			document.getElementById('readingTime').textContent = progress >= 1 || wordCount === 0
+				? ''
+				: minutesLeft + ' min left';
 		}
-		ul, ol {
-			padding-left: 2em;
-			margin: 0.6em 0;
+		
+		function updateReadingPosition() {
+			highlightTocSection(getSectionAtScrollTop().id);
+			updateReadingProgress();
 		}
-		li { margin: 0.2em 0; }
-		table {
-			border-collapse: collapse;
-			width: 100%;
-			margin: 0.8em 0;
+		
+		document.getElementById('contentArea').addEventListener('scroll', function() {
+			if (scrollFrame) {
+				return;
+			}
+			// Scrolls caused by the editor or the linked panel are not echoed back to it
+			const revealInEditor = Date.now() >= ignoreScrollUntil;
+			const notifyLinked = Date.now() >= ignoreLinkedScrollUntil;
+			scrollFrame = requestAnimationFrame(function() {
+				scrollFrame = null;
+				if (revealInEditor) {
+					const line = getLineAtScrollTop();
+					if (line !== null) {
+						saveState({ line });
+						vscode.postMessage({ type: 'revealLine', line });
+					}
+				}
+				updateReadingPosition();
+				if (isLinked && notifyLinked) {
+					vscode.postMessage({ type: 'linkedScroll', section: getSectionAtScrollTop() });
+				}
+			});
+		});
+		
+		// ===== BROKEN LINKS =====
+		// Problems found by the extension, by link target
+		let brokenLinks = new Map();
+		
+		// Underline broken links; patched blocks arrive unmarked, so this runs
+		// after every update as well
+		function markBrokenLinks() {
+			document.querySelectorAll('#contentArea a[href]').forEach(link => {
+				const message = brokenLinks.get(link.getAttribute('href'));
+				const wasBroken = link.classList.contains('broken-link');
+				if (message) {
+					if (!wasBroken && link.hasAttribute('title')) {
+						link.dataset.linkTitle = link.getAttribute('title');
+					}
+					link.classList.add('broken-link');
+					link.title = message;
+				} else if (wasBroken) {
+					link.classList.remove('broken-link');
+					if (link.dataset.linkTitle !== undefined) {
+						link.title = link.dataset.linkTitle;
+						delete link.dataset.linkTitle;
+					} else {
+						link.removeAttribute('title');
+					}
+				}
+			});
 		}
-		th, td {
-			border: 1px solid var(--vscode-panel-border);
-			padding: 6px 10px;
-			text-align: left;
+		
+		// ===== FIND IN PREVIEW =====
+		const MAX_FIND_MATCHES = 2000;
+		const findOptions = { caseSensitive: false, wholeWord: false, regex: false };
+		// Each match is the list of <mark> elements it was split into
+		let findMatches = [];
+		let currentMatch = -1;
+		let findPatternInvalid = false;
+		let findTimer = null;
+		
+		function isFindOpen() {
+			return !document.getElementById('findBar').classList.contains('hidden');
 		}
-		th {
-			background-color: var(--vscode-editor-selectionBackground);
-			font-weight: 600;
+		
+		// Keep the bar over the top right corner of the content, whichever side the TOC is on
+		function positionFindBar() {
+			const rect = document.getElementById('contentArea').getBoundingClientRect();
+			document.getElementById('findBar').style.right = Math.max(8, window.innerWidth - rect.right + 16) + 'px';
 		}
-		img {
-			max-width: 100%;
-			height: auto;
+		
+		function openFind() {
+			document.getElementById('findBar').classList.remove('hidden');
+			positionFindBar();
+			const input = document.getElementById('findInput');
+			input.focus();
+			input.select();
+			if (input.value) {
+				runFind(false);
+			}
 		}
-		hr {
-			border: none;
-			border-top: 1px solid var(--vscode-panel-border);
-			margin: 1.2em 0;
+		
+		function closeFind() {
+			document.getElementById('findBar').classList.add('hidden');
+			clearFindHighlights();
+			filterTocByMatches(null);
 		}
-		/* Strong and emphasis in text */
-		strong, b {
-			font-weight: 600;
-			color: var(--vscode-editor-foreground);
+		
+		function buildFindRegex(query) {
+			let source = findOptions.regex ? query : query.replace(/[.*+?^$\\{}()|[\\]\\\\]/g, '\\\\$&');
+			if (findOptions.wholeWord) {
+				source = '\\\\b(?:' + source + ')\\\\b';
+			}
+			try {
+				return new RegExp(source, findOptions.caseSensitive ? 'g' : 'gi');
+			} catch (e) {
+				return null;
+			}
 		}
-		em, i {
-			font-style: italic;
+		
+		// Text of the preview as one string, with the offset of each text node.
+		// Blocks are separated by a newline so matches don't run across them.
+		function collectFindText() {
+			const walker = document.createTreeWalker(document.getElementById('contentArea'), NodeFilter.SHOW_TEXT, {
+				acceptNode: node => node.parentElement.closest('svg, .katex-mathml, script, style')
+					? NodeFilter.FILTER_REJECT
+					: NodeFilter.FILTER_ACCEPT
+			});
+			const blockSelector = 'p, li, h1, h2, h3, h4, h5, h6, td, th, pre, dt, dd, summary, div';
+			const nodes = [];
+			let text = '';
+			let lastBlock = null;
+			while (walker.nextNode()) {
+				const node = walker.currentNode;
+				const block = node.parentElement.closest(blockSelector);
+				if (lastBlock && block !== lastBlock) {
+					text += '\\n';
+				}
+				lastBlock = block;
+				nodes.push({ node, start: text.length });
+				text += node.nodeValue;
+			}
+			return { text, nodes };
 		}
 		
-		/* Scroll margin for headings */
-		h1[id], h2[id], h3[id], h4[id], h5[id], h6[id] {
-			scroll-margin-top: 20px;
+		function wrapFindMatch(node, from, to) {
+			const match = node.splitText(from);
+			match.splitText(to - from);
+			const mark = document.createElement('mark');
+			mark.className = 'find-match';
+			match.parentNode.replaceChild(mark, match);
+			mark.appendChild(match);
+			return mark;
 		}
-	</style>
-</head>
-<body>
-	<button class="toc-floating-toggle hidden" id="tocFloatingToggle" onclick="toggleToc()" title="Toggle table of contents">
-		<svg viewBox="0 0 24 24"><path d="M3 18h18v-2H3v2zm0-5h18v-2H3v2zm0-7v2h18V6H3z"/></svg>
-	</button>
-	
-	<div class="main-container" id="mainContainer">
-		<aside class="toc-sidebar" id="tocSidebar">
-			<div class="toc-resize-handle" id="tocResizeHandle"></div>
-			<div class="toc-header">
-				<span class="toc-title">Contents</span>
-				<div class="toc-controls">
-					<div class="font-size-controls">
-						<button class="font-btn" onclick="decreaseFontSize()" title="Decrease font size">−</button>
-						<span id="fontSizeDisplay">${fontSize}px</span>
-						<button class="font-btn" onclick="increaseFontSize()" title="Increase font size">+</button>
-					</div>
-					<button class="toc-btn" onclick="toggleExpandCollapse()" title="Expand/Collapse all" id="expandCollapseBtn">
-						<svg viewBox="0 0 16 16" id="expandCollapseIcon"><path d="M3 4l5 5 5-5 1 1-6 6-6-6z"/></svg>
-					</button>
-					<button class="toc-btn" onclick="toggleToc()" title="Hide TOC">
-						<svg viewBox="0 0 16 16"><path d="M8 8.707l3.646 3.647.708-.707L8.707 8l3.647-3.646-.707-.708L8 7.293 4.354 3.646l-.708.708L7.293 8l-3.647 3.646.708.708L8 8.707z"/></svg>
-					</button>
-				</div>
-			</div>
-			<nav class="toc-content">
-				${tocHtml}
-			</nav>
-			<div class="toc-footer">
-				<button class="theme-toggle" onclick="toggleTheme()" title="Toggle light/dark theme" id="themeToggle">🌙</button>
-				<div class="position-switcher">
-					<button class="position-btn ${
-            isLeft ? "active" : ""
-          }" onclick="setPosition('left')" title="TOC on left">◀</button>
-					<button class="position-btn ${
-            !isLeft ? "active" : ""
-          }" onclick="setPosition('right')" title="TOC on right">▶</button>
-				</div>
-			</div>
-		</aside>
 		
-		<main class="content-area" id="contentArea">
-			${renderedHtml}
-		</main>
-	</div>
-	
-	<script>
-		let currentFontSize = ${fontSize};
-		let isExpanded = true;
-		let isDarkTheme = true;
+		function clearFindHighlights() {
+			const parents = new Set();
+			document.querySelectorAll('#contentArea mark.find-match').forEach(mark => {
+				const parent = mark.parentNode;
+				while (mark.firstChild) {
+					parent.insertBefore(mark.firstChild, mark);
+				}
+				parent.removeChild(mark);
+				parents.add(parent);
+			});
+			parents.forEach(parent => parent.normalize());
+			findMatches = [];
+			currentMatch = -1;
+			updateFindCount();
+		}
 		
-		// Toggle TOC visibility
-		function toggleToc() {
-			const container = document.getElementById('mainContainer');
-			const floatingBtn = document.getElementById('tocFloatingToggle');
-			const isHidden = container.classList.toggle('toc-hidden');
+		// Highlight all matches of the query. After a content update the
+		// current match index is kept, otherwise the first match below the
+		// top of the preview becomes current.
+		function runFind(keepCurrent) {
+			const previousMatch = currentMatch;
+			clearFindHighlights();
 			
-			// Show hamburger when TOC is hidden, hide it when TOC is visible
-			if (isHidden) {
-				floatingBtn.classList.remove('hidden');
-			} else {
-				floatingBtn.classList.add('hidden');
+			const query = document.getElementById('findInput').value;
+			const regex = query ? buildFindRegex(query) : null;
+			findPatternInvalid = !!query && !regex;
+			document.getElementById('findInput').classList.toggle('invalid', findPatternInvalid);
+			if (!regex) {
+				filterTocByMatches(null);
+				updateFindCount();
+				return;
 			}
 			
-			localStorage.setItem('tocHidden', isHidden);
-		}
-		
-		// Font size controls
-		function increaseFontSize() {
-			if (currentFontSize < 32) {
-				currentFontSize += 2;
-				updateFontSize();
+			const { text, nodes } = collectFindText();
+			const ranges = [];
+			let match;
+			while (ranges.length < MAX_FIND_MATCHES && (match = regex.exec(text))) {
+				if (match[0].length === 0) {
+					regex.lastIndex++;
+					continue;
+				}
+				ranges.push([match.index, match.index + match[0].length]);
+			}
+			
+			// Wrap from the end: splitting a text node leaves its head, and the
+			// offsets of earlier matches, unchanged
+			findMatches = ranges.map(() => []);
+			let nodeIndex = nodes.length - 1;
+			for (let r = ranges.length - 1; r >= 0; r--) {
+				const [start, end] = ranges[r];
+				while (nodeIndex > 0 && nodes[nodeIndex].start >= end) {
+					nodeIndex--;
+				}
+				for (let i = nodeIndex; i >= 0; i--) {
+					const entry = nodes[i];
+					if (entry.start + entry.node.nodeValue.length <= start) {
+						break;
+					}
+					const from = Math.max(start, entry.start) - entry.start;
+					const to = Math.min(end, entry.start + entry.node.nodeValue.length) - entry.start;
+					findMatches[r].unshift(wrapFindMatch(entry.node, from, to));
+				}
+			}
+			
+			filterTocByMatches(findMatches);
+			if (findMatches.length === 0) {
+				updateFindCount();
+			} else if (keepCurrent && previousMatch >= 0) {
+				setCurrentMatch(Math.min(previousMatch, findMatches.length - 1), false);
+			} else {
+				const contentArea = document.getElementById('contentArea');
+				const top = contentArea.getBoundingClientRect().top;
+				const below = findMatches.findIndex(marks => marks[0].getBoundingClientRect().top >= top);
+				setCurrentMatch(below === -1 ? 0 : below, true);
 			}
 		}
 		
-		function decreaseFontSize() {
-			if (currentFontSize > 10) {
-				currentFontSize -= 2;
-				updateFontSize();
+		function setCurrentMatch(index, reveal) {
+			document.querySelectorAll('#contentArea mark.find-match.current')
+				.forEach(mark => mark.classList.remove('current'));
+			currentMatch = (index + findMatches.length) % findMatches.length;
+			const marks = findMatches[currentMatch];
+			marks.forEach(mark => mark.classList.add('current'));
+			if (reveal) {
+				// Open collapsed front matter so the match can be seen
+				const details = marks[0].closest('details');
+				if (details) {
+					details.open = true;
+				}
+				marks[0].scrollIntoView({ block: 'center' });
 			}
+			updateFindCount();
 		}
 		
-		function updateFontSize() {
-			document.documentElement.style.setProperty('--preview-font-size', currentFontSize + 'px');
-			document.getElementById('fontSizeDisplay').textContent = currentFontSize + 'px';
-			localStorage.setItem('previewFontSize', currentFontSize);
+		function findStep(step) {
+			if (!isFindOpen()) {
+				openFind();
+				return;
+			}
+			if (findMatches.length > 0) {
+				setCurrentMatch(currentMatch + step, true);
+			}
 		}
 		
-		// Theme toggle
-		function toggleTheme() {
-			isDarkTheme = !isDarkTheme;
-			document.body.classList.toggle('light-theme', !isDarkTheme);
-			document.getElementById('themeToggle').textContent = isDarkTheme ? '🌙' : '☀️';
-			localStorage.setItem('previewTheme', isDarkTheme ? 'dark' : 'light');
+		function updateFindCount() {
+			const query = document.getElementById('findInput').value;
+			let label = '';
+			if (findPatternInvalid) {
+				label = 'Invalid pattern';
+			} else if (query && findMatches.length === 0) {
+				label = 'No results';
+			} else if (findMatches.length > 0) {
+				const total = findMatches.length >= MAX_FIND_MATCHES ? MAX_FIND_MATCHES + '+' : findMatches.length;
+				label = (currentMatch + 1) + ' of ' + total;
+			}
+			document.getElementById('findCount').textContent = label;
+			document.getElementById('findPrevBtn').disabled = findMatches.length === 0;
+			document.getElementById('findNextBtn').disabled = findMatches.length === 0;
 		}
 		
-		// Single expand/collapse toggle
-		function toggleExpandCollapse() {
-			const items = document.querySelectorAll('.toc-item.has-children');
-			const icon = document.getElementById('expandCollapseIcon');
+		// Show only TOC entries whose section, or a subsection, has a match;
+		// null shows them all again
+		function filterTocByMatches(matches) {
+			const items = document.querySelectorAll('#tocContent .toc-item');
+			items.forEach(item => item.classList.remove('find-hidden'));
+			if (!matches) {
+				return;
+			}
 			
-			if (isExpanded) {
-				items.forEach(item => item.classList.add('collapsed'));
-				icon.innerHTML = '<path d="M3 12l5-5 5 5 1-1-6-6-6 6z"/>';
-			} else {
-				items.forEach(item => item.classList.remove('collapsed'));
-				icon.innerHTML = '<path d="M3 4l5 5 5-5 1 1-6 6-6-6z"/>';
+			const headings = getContentHeadings();
+			const hitIds = new Set();
+			let h = -1;
+			for (const marks of matches) {
+				// Matches are in document order, so the section heading only moves forward
+				while (h + 1 < headings.length &&
+					(headings[h + 1].compareDocumentPosition(marks[0]) & Node.DOCUMENT_POSITION_FOLLOWING)) {
+					h++;
+				}
+				if (h >= 0) {
+					hitIds.add(headings[h].id);
+				}
 			}
-			isExpanded = !isExpanded;
-			localStorage.setItem('tocExpanded', isExpanded);
+			
+			items.forEach(item => {
+				const hasHit = Array.from(item.querySelectorAll('.toc-link'))
+					.some(link => hitIds.has(link.getAttribute('href').slice(1)));
+				item.classList.toggle('find-hidden', !hasHit);
+			});
 		}
 		
-		// Set TOC position (left or right)
-		function setPosition(pos) {
-			localStorage.setItem('tocPosition', pos);
-			
-			document.querySelectorAll('.position-btn').forEach(btn => {
-				btn.classList.remove('active');
+		(function() {
+			const input = document.getElementById('findInput');
+			input.addEventListener('input', function() {
+				clearTimeout(findTimer);
+				findTimer = setTimeout(function() {
+					findTimer = null;
+					runFind(false);
+				}, 100);
+			});
+			input.addEventListener('keydown', function(e) {
+				if (e.key === 'Enter') {
+					e.preventDefault();
+					// A search still waiting on the debounce runs now instead
+					if (findTimer !== null) {
+						clearTimeout(findTimer);
+						findTimer = null;
+						runFind(false);
+					} else {
+						findStep(e.shiftKey ? -1 : 1);
+					}
+				} else if (e.key === 'Escape') {
+					e.preventDefault();
+					closeFind();
+				}
 			});
-			event.target.classList.add('active');
 			
-			const container = document.getElementById('mainContainer');
-			const sidebar = document.getElementById('tocSidebar');
-			const floatingBtn = document.querySelector('.toc-floating-toggle');
+			[['findCaseBtn', 'caseSensitive'], ['findWordBtn', 'wholeWord'], ['findRegexBtn', 'regex']].forEach(([id, option]) => {
+				const button = document.getElementById(id);
+				button.addEventListener('click', function() {
+					findOptions[option] = !findOptions[option];
+					button.classList.toggle('active', findOptions[option]);
+					button.setAttribute('aria-pressed', String(findOptions[option]));
+					runFind(false);
+					input.focus();
+				});
+			});
 			
-			if (pos === 'left') {
-				container.style.flexDirection = 'row';
-				sidebar.style.borderRight = '1px solid var(--vscode-panel-border, #3c3c3c)';
-				sidebar.style.borderLeft = 'none';
-				floatingBtn.style.left = '12px';
-				floatingBtn.style.right = 'auto';
-			} else {
-				container.style.flexDirection = 'row-reverse';
-				sidebar.style.borderLeft = '1px solid var(--vscode-panel-border, #3c3c3c)';
-				sidebar.style.borderRight = 'none';
-				floatingBtn.style.right = '12px';
-				floatingBtn.style.left = 'auto';
-			}
-		}
-		
-		// Toggle individual TOC item
-		document.querySelectorAll('.toc-toggle').forEach(toggle => {
-			toggle.addEventListener('click', function(e) {
-				e.stopPropagation();
-				const item = this.closest('.toc-item');
-				item.classList.toggle('collapsed');
+			document.getElementById('findPrevBtn').addEventListener('click', () => findStep(-1));
+			document.getElementById('findNextBtn').addEventListener('click', () => findStep(1));
+			document.getElementById('findCloseBtn').addEventListener('click', closeFind);
+			window.addEventListener('resize', function() {
+				if (isFindOpen()) {
+					positionFindBar();
+				}
 			});
-		});
+		})();
 		
-		// Smooth scroll to heading
-		document.querySelectorAll('.toc-link').forEach(link => {
-			link.addEventListener('click', function(e) {
-				e.preventDefault();
-				const targetId = this.getAttribute('href').substring(1);
-				const target = document.getElementById(targetId);
-				if (target) {
-					target.scrollIntoView({ behavior: 'smooth', block: 'start' });
+		window.addEventListener('message', function(event) {
+			const message = event.data;
+			switch (message.type) {
+				case 'update': {
+					const isFirstUpdate = renderedToc === null;
+					// A following panel switched documents: start from the top
+					if (!isFirstUpdate && panelState.source !== message.source) {
+						document.getElementById('contentArea').scrollTop = 0;
+					}
+					saveState({ source: message.source, diff: message.diff });
+					patchContent(message.blocks);
+					applySourceLines(message.lines);
+					patchToc(message.tocHtml);
+					renderMermaidDiagrams(false);
+					if (isFirstUpdate && restoringScroll) {
+						scrollToLine(panelState.line);
+					}
+					markBrokenLinks();
+					countWords();
+					updateReadingPosition();
+					// Patched blocks come without highlights; search them again
+					if (isFindOpen()) {
+						runFind(true);
+					}
+					// Same event as VS Code's preview, for contributed scripts
+					window.dispatchEvent(new CustomEvent('vscode.markdown.updateContent'));
+					break;
 				}
-			});
+				case 'scrollToLine':
+					scrollToLine(message.line);
+					break;
+				case 'colorTheme':
+					// Changing the VS Code theme ends a manual override
+					colorThemeKind = message.kind;
+					saveState({ themeOverride: undefined });
+					applyTheme();
+					break;
+				case 'customStyles':
+					setCustomStyles(message.urls);
+					break;
+				case 'codeThemes':
+					codeThemeUrls = message.urls;
+					applyCodeTheme();
+					break;
+				case 'brokenLinks':
+					brokenLinks = new Map(message.links.map(link => [link.href, link.message]));
+					markBrokenLinks();
+					break;
+				case 'find':
+					if (message.action === 'open') {
+						openFind();
+					} else {
+						findStep(message.action === 'next' ? 1 : -1);
+					}
+					break;
+				case 'scrollToSection':
+					scrollToSection(message.section);
+					break;
+				case 'linked':
+					setLinked(message);
+					break;
+				case 'viewDefaults':
+					// A panel keeps values picked in it over the configured ones
+					viewDefaults = message.defaults;
+					applyViewState();
+					break;
+				case 'resetView':
+					resetView();
+					break;
+				case 'following': {
+					const followBtn = document.getElementById('followBtn');
+					followBtn.classList.toggle('active', message.following);
+					followBtn.title = message.following
+						? 'Following the active editor. Click to pin to this document'
+						: 'Pinned to this document. Click to follow the active editor';
+					saveState({ following: message.following });
+					break;
+				}
+				case 'requestExport':
+					requestExport(message.format);
+					break;
+			}
 		});
 		
 		// ===== TOC RESIZE FUNCTIONALITY =====
@@ -1370,15 +4984,6 @@ function getWebviewContent(
 			const handle = document.getElementById('tocResizeHandle');
 			let isResizing = false;
 			let startX, startWidth;
-			const isLeft = '${tocPosition}' === 'left';
-			
-			// Restore saved width
-			const savedWidth = localStorage.getItem('tocWidth');
-			if (savedWidth) {
-				const width = parseInt(savedWidth);
-				sidebar.style.width = width + 'px';
-				document.documentElement.style.setProperty('--toc-width', width + 'px');
-			}
 			
 			handle.addEventListener('mousedown', function(e) {
 				isResizing = true;
@@ -1395,7 +5000,7 @@ function getWebviewContent(
 				if (!isResizing) return;
 				
 				let newWidth;
-				if (isLeft) {
+				if (tocPosition === 'left') {
 					newWidth = startWidth + (e.clientX - startX);
 				} else {
 					newWidth = startWidth - (e.clientX - startX);
@@ -1406,8 +5011,7 @@ function getWebviewContent(
 				const maxWidth = 450;
 				newWidth = Math.max(minWidth, Math.min(maxWidth, newWidth));
 				
-				sidebar.style.width = newWidth + 'px';
-				document.documentElement.style.setProperty('--toc-width', newWidth + 'px');
+				setTocWidth(newWidth);
 			});
 			
 			document.addEventListener('mouseup', function() {
@@ -1418,56 +5022,47 @@ function getWebviewContent(
 					document.body.style.cursor = '';
 					document.body.style.userSelect = '';
 					
-					// Save width to localStorage
-					localStorage.setItem('tocWidth', sidebar.offsetWidth);
+					saveView('tocWidth', sidebar.offsetWidth);
 				}
 			});
 			
 			// Double-click to reset width
 			handle.addEventListener('dblclick', function() {
-				sidebar.style.width = '280px';
-				document.documentElement.style.setProperty('--toc-width', '280px');
-				localStorage.setItem('tocWidth', '280');
+				setTocWidth(viewDefaults.tocWidth);
+				saveState({ tocWidth: undefined });
 			});
 		})();
 		
-		// Restore preferences from localStorage
-		(function() {
-			const tocHidden = localStorage.getItem('tocHidden') === 'true';
-			const floatingBtn = document.getElementById('tocFloatingToggle');
-			
-			if (tocHidden) {
-				document.getElementById('mainContainer').classList.add('toc-hidden');
-				floatingBtn.classList.remove('hidden');
-			} else {
-				floatingBtn.classList.add('hidden');
-			}
-			
-			const savedPosition = localStorage.getItem('tocPosition');
-			if (savedPosition) {
-				setPosition(savedPosition);
-			}
-			
-			const savedFontSize = localStorage.getItem('previewFontSize');
-			if (savedFontSize) {
-				currentFontSize = parseInt(savedFontSize);
-				updateFontSize();
-			}
-			
-			const savedTheme = localStorage.getItem('previewTheme');
-			if (savedTheme === 'light') {
-				isDarkTheme = false;
-				document.body.classList.add('light-theme');
-				document.getElementById('themeToggle').textContent = '☀️';
-			}
-			
-			const savedExpanded = localStorage.getItem('tocExpanded');
-			if (savedExpanded === 'false') {
-				isExpanded = true;
-				toggleExpandCollapse();
-			}
-		})();
+		function setTocWidth(width) {
+			document.getElementById('tocSidebar').style.width = width + 'px';
+			document.documentElement.style.setProperty('--toc-width', width + 'px');
+		}
+		
+		// ===== PANEL VIEW STATE =====
+		function applyViewState() {
+			setTocHidden(typeof panelState.tocHidden === 'boolean' ? panelState.tocHidden : !viewDefaults.tocVisible);
+			setPosition(panelState.tocPosition || viewDefaults.tocPosition);
+			setTocWidth(panelState.tocWidth || viewDefaults.tocWidth);
+			currentFontSize = panelState.fontSize || viewDefaults.fontSize;
+			updateFontSize();
+			applyTheme();
+		}
+		
+		// Drop this panel's view settings and go back to the configured ones
+		function resetView() {
+			const changes = {};
+			viewStateKeys.forEach(key => { changes[key] = undefined; });
+			saveState(changes);
+			applyViewState();
+			setExpanded(true);
+		}
+		
+		applyViewState();
+		setExpanded(panelState.tocExpanded !== false);
+		
+		vscode.postMessage({ type: 'ready', restoringScroll });
 	</script>
+${contributedScripts}
 </body>
 </html>`;
 }
@@ -1479,4 +5074,19 @@ export function deactivate() {
   }
   activePanels.length = 0;
   panelDocumentMap.clear();
+  followingPanels.clear();
+  for (const timer of pendingUpdates.values()) {
+    clearTimeout(timer);
+  }
+  pendingUpdates.clear();
+  for (const panel of [...panelResourceWatchers.keys()]) {
+    disposeResourceWatchers(panel);
+  }
+  for (const panel of [...panelStyleWatchers.keys()]) {
+    disposeCustomStyleWatchers(panel);
+  }
+  for (const watcher of panelDocumentWatchers.values()) {
+    watcher.dispose();
+  }
+  panelDocumentWatchers.clear();
 }
@@ -0,0 +1,185 @@
+import type MarkdownIt from "markdown-it";
+import { parse as parseToml } from "@iarna/toml";
+import { parse as parseYaml } from "yaml";
+import { escapeHtml } from "./html";
+
+// ========== FRONT MATTER ==========
+
+// How the metadata block above the content is shown
+export type FrontMatterDisplay = "table" | "card" | "hide";
+
+export interface FrontMatter {
+  format: "yaml" | "toml";
+  data: Record<string, unknown>;
+  error?: string;
+}
+
+// Opening fence per front matter format
+const fences: Record<string, FrontMatter["format"]> = {
+  "---": "yaml",
+  "+++": "toml",
+};
+
+// Parse the raw text between the fences
+export function parseFrontMatter(
+  raw: string,
+  format: FrontMatter["format"]
+): FrontMatter {
+  try {
+    const data = format === "toml" ? parseToml(raw) : parseYaml(raw);
+    const isObject =
+      data !== null && typeof data === "object" && !Array.isArray(data);
+    return { format, data: isObject ? (data as Record<string, unknown>) : {} };
+  } catch (error) {
+    // Parsers append a multi-line code frame; the first line is enough
+    const message = error instanceof Error ? error.message : String(error);
+    return { format, data: {}, error: message.split("\n")[0] };
+  }
+}
+
+// Title from front matter, if it has a non-empty one
+export function getFrontMatterTitle(
+  frontMatter: FrontMatter | undefined
+): string | undefined {
+  const title = frontMatter?.data["title"];
+  return typeof title === "string" && title.trim() ? title.trim() : undefined;
+}
+
+// markdown-it plugin: a YAML (`---`) or TOML (`+++`) block on the very first
+// line becomes a `front_matter` token instead of a rule and a paragraph. The
+// parsed result is stored in `env.frontMatter`, and the token keeps its
+// source lines so scroll sync still lines up.
+export function frontMatterPlugin(md: MarkdownIt): void {
+  md.block.ruler.before(
+    "table",
+    "front_matter",
+    (state, startLine, endLine, silent) => {
+      if (startLine !== 0 || state.sCount[startLine] !== 0) {
+        return false;
+      }
+
+      const firstLine = getLine(state, startLine);
+      const format = fences[firstLine];
+      if (!format) {
+        return false;
+      }
+
+      // YAML may also close with `...`
+      let closingLine = -1;
+      for (let line = startLine + 1; line < endLine; line++) {
+        const text = getLine(state, line);
+        if (text === firstLine || (format === "yaml" && text === "...")) {
+          closingLine = line;
+          break;
+        }
+      }
+      if (closingLine === -1) {
+        return false;
+      }
+      if (silent) {
+        return true;
+      }
+
+      const raw = state.getLines(startLine + 1, closingLine, 0, true);
+      const frontMatter = parseFrontMatter(raw, format);
+      state.env.frontMatter = frontMatter;
+
+      const token = state.push("front_matter", "", 0);
+      token.block = true;
+      token.content = raw;
+      token.info = format;
+      token.map = [startLine, closingLine + 1];
+      token.meta = frontMatter;
+
+      state.line = closingLine + 1;
+      return true;
+    }
+  );
+
+  md.renderer.rules.front_matter = (tokens, idx, options, env, self) => {
+    const display: FrontMatterDisplay = env.frontMatterDisplay || "table";
+    const frontMatter: FrontMatter = tokens[idx].meta;
+    if (display === "hide") {
+      return "";
+    }
+
+    const attrs = self.renderAttrs(tokens[idx]);
+    return display === "card"
+      ? renderCard(frontMatter, attrs)
+      : renderTable(frontMatter, attrs);
+  };
+}
+
+function getLine(state: MarkdownIt.StateBlock, line: number): string {
+  return state.src
+    .slice(state.bMarks[line] + state.tShift[line], state.eMarks[line])
+    .trimEnd();
+}
+
+// Collapsible key/value table
+function renderTable(frontMatter: FrontMatter, attrs: string): string {
+  const rows = Object.entries(frontMatter.data)
+    .map(
+      ([key, value]) =>
+        `<tr><th>${escapeHtml(key)}</th><td>${formatValue(value)}</td></tr>`
+    )
+    .join("");
+
+  return `<details class="front-matter"${attrs}><summary>Metadata</summary>${renderError(
+    frontMatter
+  )}${rows ? `<table class="front-matter-table">${rows}</table>` : ""}</details>\n`;
+}
+
+// Card with the title and description up front and the rest as fields
+function renderCard(frontMatter: FrontMatter, attrs: string): string {
+  const { title, description, ...fields } = frontMatter.data;
+  let html = `<div class="front-matter-card"${attrs}>${renderError(frontMatter)}`;
+
+  if (typeof title === "string") {
+    html += `<div class="front-matter-title">${escapeHtml(title)}</div>`;
+  }
+  if (typeof description === "string") {
+    html += `<div class="front-matter-description">${escapeHtml(description)}</div>`;
+  }
+
+  const entries = Object.entries(fields);
+  if (entries.length > 0) {
+    html += '<dl class="front-matter-fields">';
+    for (const [key, value] of entries) {
+      html += `<dt>${escapeHtml(key)}</dt><dd>${formatValue(value)}</dd>`;
+    }
+    html += "</dl>";
+  }
+
+  return html + "</div>\n";
+}
+
+function renderError(frontMatter: FrontMatter): string {
+  if (!frontMatter.error) {
+    return "";
+  }
+  const format = frontMatter.format.toUpperCase();
+  return `<div class="front-matter-error">Invalid ${format} front matter: ${escapeHtml(
+    frontMatter.error
+  )}</div>`;
+}
+
+// Lists become tags, dates are shown as dates, nested objects as JSON
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value
+      .map(
+        (item) => `<span class="front-matter-tag">${formatValue(item)}</span>`
+      )
+      .join(" ");
+  }
+  if (value instanceof Date) {
+    return escapeHtml(
+      isNaN(value.getTime()) ? String(value) : value.toISOString().slice(0, 10)
+    );
+  }
+  if (value !== null && typeof value === "object") {
+    return `<code>${escapeHtml(JSON.stringify(value))}</code>`;
+  }
+  return escapeHtml(String(value));
+}
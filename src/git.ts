@@ -0,0 +1,71 @@
+import * as vscode from "vscode";
+
+// ========== GIT ==========
+
+// The small part of the built-in git extension's API (vscode.git, API
+// version 1) used to read committed file content
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  show(ref: string, path: string): Promise<string>;
+}
+
+interface GitAPI {
+  readonly state: "uninitialized" | "initialized";
+  readonly onDidChangeState: vscode.Event<"uninitialized" | "initialized">;
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+// Repositories are discovered after the git extension activates
+function whenInitialized(api: GitAPI): Promise<void> {
+  if (api.state === "initialized") {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const listener = api.onDidChangeState((state) => {
+      if (state === "initialized") {
+        listener.dispose();
+        resolve();
+      }
+    });
+  });
+}
+
+interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): GitAPI;
+}
+
+// Content of a file at a git revision, read through the built-in git
+// extension from the local repository. Fails with a readable message when
+// git is unavailable or the file is not committed.
+export async function getFileAtRevision(
+  uri: vscode.Uri,
+  ref: string
+): Promise<string> {
+  const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+  if (!extension) {
+    throw new Error("The built-in Git extension is not available.");
+  }
+
+  const gitExtension = extension.isActive
+    ? extension.exports
+    : await extension.activate();
+  if (!gitExtension.enabled) {
+    throw new Error("Git is disabled (git.enabled).");
+  }
+
+  const api = gitExtension.getAPI(1);
+  await whenInitialized(api);
+  const repository = api.getRepository(uri);
+  if (!repository) {
+    throw new Error(`${uri.path.split("/").pop()} is not in a Git repository.`);
+  }
+
+  try {
+    return await repository.show(ref, uri.fsPath);
+  } catch (__) {
+    throw new Error(
+      `${uri.path.split("/").pop()} has no committed version at ${ref}.`
+    );
+  }
+}
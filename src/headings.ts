@@ -0,0 +1,83 @@
+import type MarkdownIt from "markdown-it";
+import { createSlugger } from "./slugger";
+
+// ========== MARKDOWN HEADING PARSER ==========
+
+export interface MarkdownHeading {
+  text: string;
+  level: number;
+  id: string;
+  children: MarkdownHeading[];
+}
+
+// Plain text of a heading's inline content, without markdown markup
+export function getHeadingText(inlineToken: MarkdownIt.Token): string {
+  return (inlineToken.children || [])
+    .map((child) => {
+      switch (child.type) {
+        case "text":
+        case "code_inline":
+          return child.content;
+        case "softbreak":
+        case "hardbreak":
+          return " ";
+        case "image":
+          return getHeadingText(child);
+        default:
+          return "";
+      }
+    })
+    .join("")
+    .trim();
+}
+
+// Core rule: collect headings from the token stream and give each heading a
+// unique id, so the TOC and the anchors come from the same pass
+export function collectHeadings(state: MarkdownIt.StateCore): void {
+  const headings: MarkdownHeading[] = [];
+  const slug = createSlugger(state.env.slugStrategy || "github");
+
+  state.tokens.forEach((token, idx) => {
+    const inlineToken = state.tokens[idx + 1];
+    if (token.type !== "heading_open" || !inlineToken) {
+      return;
+    }
+
+    const text = getHeadingText(inlineToken);
+    const id = slug(text);
+
+    token.attrSet("id", id);
+    headings.push({
+      text,
+      level: Number(token.tag.substring(1)),
+      id,
+      children: [],
+    });
+  });
+
+  state.env.headings = headings;
+}
+
+// Build hierarchical structure from flat headings
+export function buildHierarchy(
+  flatHeadings: MarkdownHeading[]
+): MarkdownHeading[] {
+  const root: MarkdownHeading[] = [];
+  const stack: MarkdownHeading[] = [];
+
+  for (const heading of flatHeadings) {
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+
+    if (stack.length === 0) {
+      root.push(heading);
+    } else {
+      stack[stack.length - 1].children.push(heading);
+    }
+
+    stack.push(heading);
+  }
+
+  return root;
+}
@@ -0,0 +1,11 @@
+// ========== HTML HELPERS ==========
+
+// Escape text for use in HTML content and attribute values
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
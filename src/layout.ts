@@ -0,0 +1,59 @@
+// ========== PREVIEW GRID LAYOUT ==========
+
+// Editor group layout in the shape taken by `vscode.setEditorLayout`
+// (orientation 0 lays groups out left to right, 1 top to bottom)
+export interface EditorGroupLayout {
+  orientation?: 0 | 1;
+  size?: number;
+  groups?: EditorGroupLayout[];
+}
+
+// A named arrangement of previews, kept in workspace state
+export interface SavedPreviewLayout {
+  editorLayout: EditorGroupLayout;
+  previews: { uri: string; viewColumn: number }[];
+}
+
+// VS Code addresses at most nine editor groups through ViewColumn
+export const MAX_VIEW_COLUMNS = 9;
+
+// Number of grid cells used for a set of files; files beyond it share cells
+export function getGridCellCount(fileCount: number, columns: number): number {
+  const cols = clampColumns(columns);
+  const capacity = Math.floor(MAX_VIEW_COLUMNS / cols) * cols;
+  return Math.max(1, Math.min(fileCount, capacity));
+}
+
+// Rows of up to `columns` editor groups, filled left to right, top to
+// bottom, so cell N is ViewColumn N + 1
+export function buildGridLayout(
+  fileCount: number,
+  columns: number
+): EditorGroupLayout {
+  const cols = clampColumns(columns);
+  const cells = getGridCellCount(fileCount, cols);
+
+  const rows: EditorGroupLayout[] = [];
+  for (let first = 0; first < cells; first += cols) {
+    const count = Math.min(cols, cells - first);
+    rows.push({ groups: Array.from({ length: count }, () => ({})) });
+  }
+
+  if (rows.length === 1) {
+    return { orientation: 0, groups: rows[0].groups };
+  }
+  return { orientation: 1, groups: rows };
+}
+
+// ViewColumn for the file at `index`, wrapping around when files outnumber cells
+export function getGridViewColumn(
+  index: number,
+  fileCount: number,
+  columns: number
+): number {
+  return (index % getGridCellCount(fileCount, columns)) + 1;
+}
+
+function clampColumns(columns: number): number {
+  return Math.max(1, Math.min(MAX_VIEW_COLUMNS, Math.floor(columns) || 1));
+}
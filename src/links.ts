@@ -0,0 +1,166 @@
+import type MarkdownIt from "markdown-it";
+
+// ========== LINKS AND ANCHORS ==========
+
+// A link in a document, with the offsets of its target in the source text
+export interface MarkdownLink {
+  href: string;
+  start: number;
+  end: number;
+}
+
+// File part and decoded `#fragment` of a link target
+export interface LinkTarget {
+  path: string;
+  fragment?: string;
+}
+
+// `id` and `name` attributes of raw HTML tags, which are anchors as well
+const htmlAnchorRegex = /<[a-z][^>]*?\s(?:id|name)\s*=\s*["']([^"']+)["']/gi;
+
+// Links of a parsed document in source order, autolinked URLs excluded.
+// markdown-it only records the lines of each block, so a link's target is
+// found by searching those lines; reference-style links point at their
+// definition instead.
+export function collectLinks(
+  tokens: MarkdownIt.Token[],
+  text: string
+): MarkdownLink[] {
+  const lineStarts = getLineStarts(text);
+  const links: MarkdownLink[] = [];
+
+  for (const token of tokens) {
+    if (token.type !== "inline" || !token.children) {
+      continue;
+    }
+
+    const blockStart = token.map ? lineStarts[token.map[0]] : 0;
+    const blockEnd =
+      token.map && token.map[1] < lineStarts.length
+        ? lineStarts[token.map[1]]
+        : text.length;
+    let cursor = blockStart;
+
+    for (const child of token.children) {
+      const href = child.attrGet("href");
+      if (child.type !== "link_open" || !href || child.info === "auto") {
+        continue;
+      }
+
+      const inBlock = findLinkTarget(text, href, cursor, blockEnd);
+      if (inBlock) {
+        cursor = inBlock.end;
+      }
+      const range = inBlock ||
+        findLinkTarget(text, href, 0, text.length) || {
+          start: blockStart,
+          end: getLineEnd(text, blockStart),
+        };
+      links.push({ href, ...range });
+    }
+  }
+
+  return links;
+}
+
+// Ids a `#fragment` can point at: heading ids and HTML id/name attributes
+export function collectAnchorIds(tokens: MarkdownIt.Token[]): Set<string> {
+  const anchors = new Set<string>();
+  const addHtmlAnchors = (html: string) => {
+    for (const match of html.matchAll(htmlAnchorRegex)) {
+      anchors.add(match[1]);
+    }
+  };
+
+  for (const token of tokens) {
+    const id = token.type === "heading_open" ? token.attrGet("id") : null;
+    if (id) {
+      anchors.add(id);
+    } else if (token.type === "html_block") {
+      addHtmlAnchors(token.content);
+    }
+    for (const child of token.children || []) {
+      if (child.type === "html_inline") {
+        addHtmlAnchors(child.content);
+      }
+    }
+  }
+
+  return anchors;
+}
+
+// Split a link target into its path and its fragment; the query is dropped
+export function parseLinkTarget(href: string): LinkTarget {
+  const hashIndex = href.indexOf("#");
+  const path = (hashIndex === -1 ? href : href.slice(0, hashIndex)).replace(
+    /\?.*$/,
+    ""
+  );
+  if (hashIndex === -1 || hashIndex === href.length - 1) {
+    return { path };
+  }
+
+  let fragment = href.slice(hashIndex + 1);
+  try {
+    fragment = decodeURIComponent(fragment);
+  } catch (__) {
+    // Keep the raw fragment when it is not valid percent-encoding
+  }
+  return { path, fragment };
+}
+
+// Whether a document has an anchor, allowing for the case differences that
+// browsers and GitHub tolerate in hand-written links
+export function hasAnchor(anchors: Set<string>, fragment: string): boolean {
+  return anchors.has(fragment) || anchors.has(fragment.toLowerCase());
+}
+
+// Offsets of a link target in the source, as written or percent-decoded.
+// Only occurrences after `(`, `<` or whitespace count, so the link text
+// itself is not matched.
+function findLinkTarget(
+  text: string,
+  href: string,
+  from: number,
+  to: number
+): { start: number; end: number } | undefined {
+  const candidates = [href];
+  try {
+    const decoded = decodeURI(href);
+    if (decoded !== href) {
+      candidates.push(decoded);
+    }
+  } catch (__) {
+    // Only the href as written can be searched for
+  }
+
+  let best: { start: number; end: number } | undefined;
+  for (const candidate of candidates) {
+    let index = text.indexOf(candidate, from);
+    while (index !== -1 && index + candidate.length <= to) {
+      if (index === 0 || /[(<\s]/.test(text[index - 1])) {
+        if (!best || index < best.start) {
+          best = { start: index, end: index + candidate.length };
+        }
+        break;
+      }
+      index = text.indexOf(candidate, index + 1);
+    }
+  }
+  return best;
+}
+
+function getLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function getLineEnd(text: string, offset: number): number {
+  const end = text.indexOf("\n", offset);
+  return end === -1 ? text.length : end;
+}
@@ -0,0 +1,108 @@
+import * as vscode from "vscode";
+
+// ========== LOCAL RESOURCE RESOLUTION ==========
+
+// Matches URLs that already carry a scheme (https:, data:, mailto:, ...)
+const schemeRegex = /^[a-z][a-z0-9+.-]*:/i;
+
+// Media tags whose src/poster attributes point at loadable resources
+const mediaTagRegex = /<(img|video|audio|source)\b[^>]*>/gi;
+const mediaAttrRegex = /(\s(?:src|poster)\s*=\s*)(["'])(.*?)\2/gi;
+
+// Whether a link or src points at a local path rather than a URL or anchor
+export function isLocalPath(href: string): boolean {
+  return (
+    href.length > 0 &&
+    !href.startsWith("#") &&
+    !href.startsWith("//") &&
+    !schemeRegex.test(href)
+  );
+}
+
+// Folder that relative paths in a document are resolved against
+export function getDocumentFolder(document: vscode.TextDocument): vscode.Uri {
+  if (document.uri.scheme === "untitled") {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (folder) {
+      return folder.uri;
+    }
+  }
+  return vscode.Uri.joinPath(document.uri, "..");
+}
+
+// Roots the webview may load local files from: the workspace, the document's
+// folder, the extension's bundled webview assets and any extra roots, such
+// as the folders of contributed preview styles
+export function getLocalResourceRoots(
+  document: vscode.TextDocument,
+  extensionUri: vscode.Uri,
+  extraRoots: vscode.Uri[] = []
+): vscode.Uri[] {
+  const roots = (vscode.workspace.workspaceFolders || []).map((f) => f.uri);
+  roots.push(vscode.Uri.joinPath(extensionUri, "dist"), ...extraRoots);
+  const documentFolder = getDocumentFolder(document);
+  if (!roots.some((root) => root.toString() === documentFolder.toString())) {
+    roots.push(documentFolder);
+  }
+  return roots;
+}
+
+// Resolve a relative or workspace-absolute path from a document to a file URI.
+// Query strings and fragments are dropped.
+export function resolveLocalPath(
+  document: vscode.TextDocument,
+  href: string
+): vscode.Uri | undefined {
+  if (!isLocalPath(href)) {
+    return undefined;
+  }
+
+  let filePath = href.replace(/[?#].*$/, "");
+  try {
+    filePath = decodeURI(filePath);
+  } catch (__) {
+    // Keep the raw path when it is not valid percent-encoding
+  }
+  if (!filePath) {
+    return undefined;
+  }
+
+  if (filePath.startsWith("/")) {
+    // Workspace-absolute paths start at the document's workspace folder
+    const folder =
+      vscode.workspace.getWorkspaceFolder(document.uri) ||
+      vscode.workspace.workspaceFolders?.[0];
+    return folder
+      ? vscode.Uri.joinPath(folder.uri, filePath)
+      : vscode.Uri.file(filePath);
+  }
+
+  return vscode.Uri.joinPath(getDocumentFolder(document), filePath);
+}
+
+// Rewrite media src/poster attributes in rendered HTML that point at local
+// files. `toUrl` gets each resolved file and the tag referencing it.
+export function rewriteResourceUrls(
+  html: string,
+  document: vscode.TextDocument,
+  toUrl: (uri: vscode.Uri, tag: string) => string
+): string {
+  return html.replace(mediaTagRegex, (tag, tagName: string) =>
+    tag.replace(mediaAttrRegex, (match, prefix, quote, value) => {
+      const uri = resolveLocalPath(document, unescapeAttribute(value));
+      if (!uri) {
+        return match;
+      }
+      return `${prefix}${quote}${toUrl(uri, tagName.toLowerCase())}${quote}`;
+    })
+  );
+}
+
+function unescapeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
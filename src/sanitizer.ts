@@ -0,0 +1,169 @@
+import sanitizeHtml from "sanitize-html";
+
+// ========== RAW HTML SANITIZER ==========
+
+// How raw HTML inside markdown is treated
+export type RawHtmlMode = "allow" | "sanitize" | "disable";
+
+// MathML and SVG elements in KaTeX output, which is sanitized along with
+// the raw HTML of the same block
+const mathTags = [
+  "math",
+  "semantics",
+  "annotation",
+  "mrow",
+  "mi",
+  "mn",
+  "mo",
+  "ms",
+  "mtext",
+  "mspace",
+  "mfrac",
+  "msqrt",
+  "mroot",
+  "mstyle",
+  "merror",
+  "mpadded",
+  "mphantom",
+  "menclose",
+  "msub",
+  "msup",
+  "msubsup",
+  "munder",
+  "mover",
+  "munderover",
+  "mtable",
+  "mtr",
+  "mtd",
+  "mlabeledtr",
+];
+const mathAttributes = [
+  "xmlns",
+  "display",
+  "encoding",
+  "mathvariant",
+  "mathcolor",
+  "mathbackground",
+  "mathsize",
+  "displaystyle",
+  "scriptlevel",
+  "stretchy",
+  "fence",
+  "separator",
+  "lspace",
+  "rspace",
+  "minsize",
+  "maxsize",
+  "largeop",
+  "accent",
+  "accentunder",
+  "linethickness",
+  "notation",
+  "width",
+  "height",
+  "depth",
+  "voffset",
+  "linebreak",
+  "columnalign",
+  "columnlines",
+  "columnspacing",
+  "rowlines",
+  "rowspacing",
+];
+
+// Values of the inline styles KaTeX lays out formulas with: lengths,
+// colors, keywords, calc() and rgb(). Other functions such as url() are
+// rejected.
+const styleValue =
+  /^(?:\s*(?:-?[\d.]+[a-z%]*(?![\w%.])|#[\da-f]{3,8}(?!\w)|[a-z][a-z-]*(?![\w(-])|(?:calc|rgba?)\(|\)|[+*/,]|-(?![\d.])))+\s*$/i;
+const allowedStyles = Object.fromEntries(
+  [
+    "height",
+    "width",
+    "min-width",
+    "top",
+    "bottom",
+    "left",
+    "position",
+    "vertical-align",
+    "margin",
+    "margin-top",
+    "margin-left",
+    "margin-right",
+    "padding-left",
+    "border-style",
+    "border-width",
+    "border-color",
+    "border-top-width",
+    "border-bottom-width",
+    "border-right-width",
+    "border-right-style",
+    "color",
+    "background-color",
+    "text-shadow",
+  ].map((property) => [property, [styleValue]])
+);
+
+// Tags and attributes kept when sanitizing. Scripts, frames, forms and
+// every event handler attribute are dropped; inline styles are limited to
+// the properties KaTeX uses.
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    ...sanitizeHtml.defaults.allowedTags,
+    "img",
+    "picture",
+    "video",
+    "audio",
+    "source",
+    "details",
+    "summary",
+    "kbd",
+    "sup",
+    "sub",
+    "ins",
+    "del",
+    "mark",
+    "center",
+    "font",
+    ...mathTags,
+    "svg",
+    "path",
+    "line",
+  ],
+  allowedAttributes: {
+    "*": ["class", "id", "title", "align", "dir", "lang", "data-*"],
+    a: ["href", "name", "target"],
+    img: ["src", "srcset", "alt", "width", "height"],
+    source: ["src", "srcset", "type", "media"],
+    video: ["src", "poster", "width", "height", "controls", "loop", "muted"],
+    audio: ["src", "controls", "loop", "muted"],
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan"],
+    ol: ["start", "type"],
+    details: ["open"],
+    font: ["color", "size"],
+    span: ["style", "aria-hidden"],
+    svg: [
+      "xmlns",
+      "width",
+      "height",
+      "viewbox",
+      "preserveaspectratio",
+      "style",
+    ],
+    path: ["d"],
+    line: ["x1", "y1", "x2", "y2", "stroke-width"],
+    ...Object.fromEntries(mathTags.map((tag) => [tag, mathAttributes])),
+  },
+  allowedStyles: { "*": allowedStyles },
+  allowedSchemes: ["http", "https", "mailto", "data"],
+  allowedSchemesByTag: {
+    a: ["http", "https", "mailto"],
+  },
+  allowProtocolRelative: false,
+};
+
+// Strip unsafe markup from a rendered HTML fragment
+export function sanitizeRenderedHtml(html: string): string {
+  return sanitizeHtml(html, sanitizeOptions);
+}
@@ -0,0 +1,59 @@
+// ========== HEADING SLUGGER ==========
+
+// Which site's anchor ids the preview mimics
+export type SlugStrategy = "github" | "gitlab" | "vscode";
+
+// Characters VS Code's built-in Markdown preview strips from anchors
+const vscodePunctuation =
+  /[\][!/'"#$%&()*+,.:;<=>?@\\^{|}~`。，、；：？！…—·ˉ¨‘’“”々～‖∶＂＇｀｜〃〔〕〈〉《》「」『』．〖〗【】（）［］｛｝]/g;
+
+// Turn heading text into an anchor id, without de-duplication
+export function slugify(text: string, strategy: SlugStrategy): string {
+  switch (strategy) {
+    case "gitlab":
+      // GitLab: drop non-word characters, spaces become dashes, runs of dashes collapse
+      return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, "")
+        .replace(/ /g, "-")
+        .replace(/-+/g, "-");
+    case "vscode":
+      return text
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, "-")
+        .replace(vscodePunctuation, "")
+        .replace(/^-+/, "")
+        .replace(/-+$/, "");
+    case "github":
+    default:
+      // GitHub (github-slugger): keep letters, marks, numbers, `_`, `-` and
+      // spaces in any script, then turn every space into a dash
+      return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, "")
+        .replace(/ /g, "-");
+  }
+}
+
+// Create a slugger that keeps ids unique within one document by appending
+// `-1`, `-2`, ... to repeated slugs, the way GitHub and GitLab do
+export function createSlugger(
+  strategy: SlugStrategy
+): (text: string) => string {
+  const occurrences = new Map<string, number>();
+
+  return (text: string) => {
+    const baseSlug = slugify(text, strategy);
+    let slug = baseSlug;
+
+    while (occurrences.has(slug)) {
+      const count = (occurrences.get(baseSlug) || 0) + 1;
+      occurrences.set(baseSlug, count);
+      slug = `${baseSlug}-${count}`;
+    }
+
+    occurrences.set(slug, 0);
+    return slug;
+  };
+}
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import MarkdownIt from 'markdown-it';
+
+import { splitTopLevelBlocks } from '../blocks';
+
+const md = new MarkdownIt({ html: true });
+
+function renderBlocks(text: string): string[] {
+	return splitTopLevelBlocks(md.parse(text, {})).map((block) => md.renderer.render(block, md.options, {}));
+}
+
+suite('Top-level Blocks Test Suite', () => {
+	test('Splits Markdown into one block per paragraph, list or fence', () => {
+		assert.deepStrictEqual(renderBlocks('# Title\n\n- a\n- b\n\n```\ncode\n```\n'), [
+			'<h1>Title</h1>\n',
+			'<ul>\n<li>a</li>\n<li>b</li>\n</ul>\n',
+			'<pre><code>code\n</code></pre>\n',
+		]);
+	});
+
+	test('Keeps raw HTML wrapping Markdown in one block', () => {
+		const blocks = renderBlocks('<details>\n<summary>More</summary>\n\nHidden **text**\n\n</details>\n\nAfter\n');
+		assert.deepStrictEqual(blocks, [
+			'<details>\n<summary>More</summary>\n<p>Hidden <strong>text</strong></p>\n</details>\n',
+			'<p>After</p>\n',
+		]);
+	});
+
+	test('Keeps a centered README header together', () => {
+		const blocks = renderBlocks('<div align="center">\n\n![logo](logo.png)\n\n</div>\n\nText\n');
+		assert.strictEqual(blocks.length, 2);
+		assert.ok(blocks[0].startsWith('<div align="center">'));
+		assert.ok(blocks[0].trimEnd().endsWith('</div>'));
+	});
+
+	test('Does not merge balanced or void HTML blocks', () => {
+		assert.strictEqual(renderBlocks('<div>done</div>\n\nText\n').length, 2);
+		assert.strictEqual(renderBlocks('<img src="a.png">\n\nText\n').length, 2);
+		assert.strictEqual(renderBlocks('<!-- <div> -->\n\nText\n').length, 2);
+	});
+});
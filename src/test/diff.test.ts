@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+
+import { DiffBlock, diffInlineHtml, diffRenderedBlocks } from '../diff';
+
+function block(html: string, line: number, kind = 'paragraph_open:p'): DiffBlock {
+	return { html, line, kind };
+}
+
+suite('Rendered Diff Test Suite', () => {
+	test('Keeps unchanged blocks and marks added and removed ones', () => {
+		const diff = diffRenderedBlocks(
+			[block('<p>a</p>', 0), block('<pre>x</pre>', 2, 'fence:code'), block('<p>c</p>', 6)],
+			[block('<p>a</p>', 0), block('<p>c</p>', 2), block('<hr>', 4, 'hr:hr')]
+		);
+		assert.deepStrictEqual(diff.blocks, [
+			'<p>a</p>',
+			'<div class="diff-removed"><pre>x</pre></div>',
+			'<p>c</p>',
+			'<div class="diff-added"><hr></div>',
+		]);
+		assert.deepStrictEqual(diff.lines, [0, 2, 2, 4]);
+		assert.deepStrictEqual([diff.added, diff.removed, diff.changed], [1, 1, 0]);
+	});
+
+	test('Shows edited blocks of the same kind as word-level changes', () => {
+		const diff = diffRenderedBlocks([block('<p>old text</p>', 0)], [block('<p>new text</p>', 0)]);
+		assert.deepStrictEqual(diff.blocks, [
+			'<div class="diff-changed"><p><del class="diff-inline-removed">old</del><ins class="diff-inline-added">new</ins> text</p></div>',
+		]);
+		assert.strictEqual(diff.changed, 1);
+	});
+
+	test('Drops anchors and source lines from removed blocks', () => {
+		const diff = diffRenderedBlocks([block('<h2 id="gone" data-line-offset="0">Gone</h2>', 0, 'heading_open:h2')], []);
+		assert.deepStrictEqual(diff.blocks, ['<div class="diff-removed"><h2>Gone</h2></div>']);
+	});
+
+	test('Keeps inline changes inside the element they belong to', () => {
+		assert.strictEqual(
+			diffInlineHtml('<h2 id="a">One <em>two</em></h2>', '<h2 id="b">One <em>three</em></h2>'),
+			'<h2 id="b">One <em><del class="diff-inline-removed">two</del><ins class="diff-inline-added">three</ins></em></h2>'
+		);
+	});
+
+	test('Marks removed and added list items as whole items', () => {
+		assert.strictEqual(
+			diffInlineHtml('<ul>\n<li>one</li>\n<li>two</li>\n<li>three</li>\n</ul>\n', '<ul>\n<li>one</li>\n<li>three</li>\n<li>four</li>\n</ul>\n'),
+			'<ul>\n<li>one</li>\n<li class="diff-removed">two</li>\n<li>three</li>\n<li class="diff-added">four</li>\n</ul>\n'
+		);
+	});
+
+	test('Compares an edited list item word by word', () => {
+		assert.strictEqual(
+			diffInlineHtml('<ol>\n<li data-line-offset="0">first step</li>\n</ol>\n', '<ol>\n<li data-line-offset="0">next step</li>\n</ol>\n'),
+			'<ol>\n<li data-line-offset="0"><del class="diff-inline-removed">first</del><ins class="diff-inline-added">next</ins> step</li>\n</ol>\n'
+		);
+	});
+
+	test('Keeps a removed nested list inside its own list element', () => {
+		assert.strictEqual(
+			diffInlineHtml('<ul>\n<li>one\n<ul>\n<li>sub</li>\n</ul>\n</li>\n</ul>\n', '<ul>\n<li>one</li>\n</ul>\n'),
+			'<ul>\n<li>one<ul class="diff-removed">\n<li>sub</li>\n</ul>\n</li>\n</ul>\n'
+		);
+	});
+
+	test('Marks removed and added table rows as whole rows', () => {
+		const table = (...rows: string[]) =>
+			'<table>\n<tbody>\n' + rows.map((row) => `<tr>\n<td>${row}</td>\n</tr>\n`).join('') + '</tbody>\n</table>\n';
+		assert.strictEqual(
+			diffInlineHtml(table('a', 'b'), table('b', 'c')),
+			'<table>\n<tbody>\n<tr class="diff-removed">\n<td>a</td>\n</tr>\n<tr>\n<td>b</td>\n</tr>\n<tr class="diff-added">\n<td>c</td>\n</tr>\n</tbody>\n</table>\n'
+		);
+	});
+});
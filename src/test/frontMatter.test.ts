@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import MarkdownIt from 'markdown-it';
+
+import { FrontMatter, frontMatterPlugin, getFrontMatterTitle, parseFrontMatter } from '../frontMatter';
+
+suite('Front Matter Test Suite', () => {
+	test('Parses YAML and TOML front matter', () => {
+		assert.deepStrictEqual(parseFrontMatter('title: Notes\ntags: [a, b]', 'yaml').data, { title: 'Notes', tags: ['a', 'b'] });
+		assert.strictEqual(parseFrontMatter('title = "Notes"', 'toml').data['title'], 'Notes');
+	});
+
+	test('Reports invalid front matter without throwing', () => {
+		const result = parseFrontMatter('title = ', 'toml');
+		assert.deepStrictEqual(result.data, {});
+		assert.ok(result.error);
+	});
+
+	test('Uses a non-empty title field only', () => {
+		assert.strictEqual(getFrontMatterTitle(parseFrontMatter('title: "  Notes "', 'yaml')), 'Notes');
+		assert.strictEqual(getFrontMatterTitle(parseFrontMatter('title: ""', 'yaml')), undefined);
+		assert.strictEqual(getFrontMatterTitle(parseFrontMatter('title: 3', 'yaml')), undefined);
+	});
+
+	test('Only treats a fence on the first line as front matter', () => {
+		const md = new MarkdownIt().use(frontMatterPlugin);
+		const env: Record<string, unknown> = {};
+		const tokens = md.parse('---\ntitle: Notes\n---\n# Heading', env);
+		assert.strictEqual(tokens[0].type, 'front_matter');
+		assert.deepStrictEqual(tokens[0].map, [0, 3]);
+		assert.strictEqual(getFrontMatterTitle(env['frontMatter'] as FrontMatter), 'Notes');
+
+		const later = md.parse('Text\n\n---\ntitle: Notes\n---', {});
+		assert.ok(later.every((token) => token.type !== 'front_matter'));
+	});
+});
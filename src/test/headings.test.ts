@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import MarkdownIt from 'markdown-it';
+
+import { buildHierarchy, collectHeadings, MarkdownHeading } from '../headings';
+
+const md = new MarkdownIt({ html: true });
+md.core.ruler.push('collect_headings', collectHeadings);
+
+function getHeadings(text: string, env: Record<string, unknown> = {}): MarkdownHeading[] {
+	md.parse(text, env);
+	return env.headings as MarkdownHeading[];
+}
+
+suite('Headings Test Suite', () => {
+	test('Skips heading-like lines inside code fences', () => {
+		const headings = getHeadings('# Title\n\n```sh\n# not a heading\n```\n\n## Next\n');
+		assert.deepStrictEqual(
+			headings.map((heading) => heading.text),
+			['Title', 'Next']
+		);
+	});
+
+	test('Collects Setext headings', () => {
+		const headings = getHeadings('Main\n====\n\nSection\n-------\n');
+		assert.deepStrictEqual(
+			headings.map((heading) => [heading.text, heading.level, heading.id]),
+			[['Main', 1, 'main'], ['Section', 2, 'section']]
+		);
+	});
+
+	test('Strips inline markup from the text and the id', () => {
+		const [heading] = getHeadings('## Use `npm` **now** with [links](#x)\n');
+		assert.strictEqual(heading.text, 'Use npm now with links');
+		assert.strictEqual(heading.id, 'use-npm-now-with-links');
+	});
+
+	test('Sets the id on the rendered heading', () => {
+		const html = md.render('# Hello *World*\n', {});
+		assert.strictEqual(html, '<h1 id="hello-world">Hello <em>World</em></h1>\n');
+	});
+
+	test('Numbers duplicate ids and follows the slug strategy', () => {
+		const headings = getHeadings('# A & B\n\n# A & B\n', { slugStrategy: 'gitlab' });
+		assert.deepStrictEqual(
+			headings.map((heading) => heading.id),
+			['a-b', 'a-b-1']
+		);
+	});
+
+	test('Nests headings under the previous higher level', () => {
+		const tree = buildHierarchy(getHeadings('# One\n\n### Deep\n\n## Two\n\n# Three\n'));
+		assert.deepStrictEqual(
+			tree.map((heading) => [heading.text, heading.children.map((child) => child.text)]),
+			[['One', ['Deep', 'Two']], ['Three', []]]
+		);
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+
+import { buildGridLayout, getGridCellCount, getGridViewColumn } from '../layout';
+
+suite('Preview Grid Layout Test Suite', () => {
+	test('Fills rows left to right with a shorter last row', () => {
+		assert.deepStrictEqual(buildGridLayout(5, 2), {
+			orientation: 1,
+			groups: [{ groups: [{}, {}] }, { groups: [{}, {}] }, { groups: [{}] }],
+		});
+	});
+
+	test('Uses a single row when the files fit in one', () => {
+		assert.deepStrictEqual(buildGridLayout(2, 3), { orientation: 0, groups: [{}, {}] });
+		assert.deepStrictEqual(buildGridLayout(0, 3), { orientation: 0, groups: [{}] });
+	});
+
+	test('Never uses more than nine editor groups', () => {
+		assert.strictEqual(getGridCellCount(20, 2), 8);
+		assert.strictEqual(getGridCellCount(20, 3), 9);
+		assert.strictEqual(getGridCellCount(20, 12), 9);
+	});
+
+	test('Wraps extra files around the grid cells', () => {
+		const columns = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map((i) => getGridViewColumn(i, 10, 2));
+		assert.deepStrictEqual(columns, [1, 2, 3, 4, 5, 6, 7, 8, 1, 2]);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import MarkdownIt from 'markdown-it';
+
+import { collectHeadings } from '../headings';
+import { collectAnchorIds, collectLinks, hasAnchor, parseLinkTarget } from '../links';
+
+const md = new MarkdownIt({ html: true, linkify: true });
+md.core.ruler.push('collect_headings', collectHeadings);
+
+suite('Links Test Suite', () => {
+	test('Finds link targets in the source', () => {
+		const text = '# Title\n\nSee [the api](../api.md#auth) and [again](../api.md#auth).\n';
+		const links = collectLinks(md.parse(text, {}), text);
+		assert.deepStrictEqual(
+			links.map((link) => text.slice(link.start, link.end)),
+			['../api.md#auth', '../api.md#auth']
+		);
+		assert.ok(links[1].start > links[0].end);
+	});
+
+	test('Points reference links at their definition and skips autolinks', () => {
+		const text = 'Read [the guide][guide] or https://example.com.\n\n[guide]: ./docs/guide.md\n';
+		const links = collectLinks(md.parse(text, {}), text);
+		assert.strictEqual(links.length, 1);
+		assert.strictEqual(links[0].href, './docs/guide.md');
+		assert.strictEqual(text.slice(links[0].start, links[0].end), './docs/guide.md');
+	});
+
+	test('Matches percent-encoded targets as written', () => {
+		const text = '[notes](my%20notes.md) and [café](./café.md)\n';
+		const links = collectLinks(md.parse(text, {}), text);
+		assert.deepStrictEqual(
+			links.map((link) => text.slice(link.start, link.end)),
+			['my%20notes.md', './café.md']
+		);
+	});
+
+	test('Collects heading ids and HTML anchors', () => {
+		const text = '# Getting Started\n\n## Getting Started\n\n<a name="legacy"></a>\n\nText <span id="inline">x</span>\n';
+		const anchors = collectAnchorIds(md.parse(text, {}));
+		assert.deepStrictEqual([...anchors].sort(), ['getting-started', 'getting-started-1', 'inline', 'legacy']);
+		assert.ok(hasAnchor(anchors, 'Getting-Started'));
+		assert.ok(!hasAnchor(anchors, 'setup'));
+	});
+
+	test('Splits link targets into path and decoded fragment', () => {
+		assert.deepStrictEqual(parseLinkTarget('../api.md?plain=1#auth'), { path: '../api.md', fragment: 'auth' });
+		assert.deepStrictEqual(parseLinkTarget('#caf%C3%A9'), { path: '', fragment: 'café' });
+		assert.deepStrictEqual(parseLinkTarget('guide.md#'), { path: 'guide.md' });
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import katex from 'katex';
+
+import { sanitizeRenderedHtml } from '../sanitizer';
+
+suite('Sanitizer Test Suite', () => {
+	test('Removes scripts and event handlers', () => {
+		assert.strictEqual(sanitizeRenderedHtml('<p>a<script>alert(1)</script>b</p>'), '<p>ab</p>');
+		assert.strictEqual(
+			sanitizeRenderedHtml('<img src="x.png" onerror="alert(1)"><a href="#a" onclick="alert(1)">a</a>'),
+			'<img src="x.png" /><a href="#a">a</a>'
+		);
+	});
+
+	test('Removes javascript: and data: links', () => {
+		assert.strictEqual(sanitizeRenderedHtml('<a href="javascript:alert(1)">a</a>'), '<a>a</a>');
+		assert.strictEqual(sanitizeRenderedHtml('<a href="JaVaScRiPt:alert(1)">a</a>'), '<a>a</a>');
+		assert.strictEqual(sanitizeRenderedHtml('<a href="data:text/html,<script>alert(1)</script>">a</a>'), '<a>a</a>');
+		assert.strictEqual(sanitizeRenderedHtml('<img src="javascript:alert(1)">'), '<img />');
+	});
+
+	test('Removes frames and embedded objects', () => {
+		assert.strictEqual(
+			sanitizeRenderedHtml('<iframe src="https://example.com"></iframe><object data="x.swf"></object><embed src="x.swf"><p>kept</p>'),
+			'<p>kept</p>'
+		);
+	});
+
+	test('Removes styles that load resources', () => {
+		assert.strictEqual(
+			sanitizeRenderedHtml('<span style="background-color:url(https://example.com/t.png);color:red">a</span>'),
+			'<span style="color:red">a</span>'
+		);
+		assert.strictEqual(
+			sanitizeRenderedHtml('<span style="height:expression(alert(1))">a</span><p style="color:red">b</p>'),
+			'<span>a</span><p>b</p>'
+		);
+		assert.strictEqual(sanitizeRenderedHtml('<style>body { background: url(x) }</style><p>a</p>'), '<p>a</p>');
+	});
+
+	test('Keeps GitHub-style markup', () => {
+		const html = '<details open><summary>More</summary><p>Press <kbd>Ctrl</kbd> and H<sub>2</sub>O</p></details>\n<div align="center"><img src="logo.png" alt="Logo" width="100"></div>';
+		assert.strictEqual(
+			sanitizeRenderedHtml(html),
+			'<details open><summary>More</summary><p>Press <kbd>Ctrl</kbd> and H<sub>2</sub>O</p></details>\n<div align="center"><img src="logo.png" alt="Logo" width="100" /></div>'
+		);
+	});
+
+	test('Keeps KaTeX output', () => {
+		const html = katex.renderToString('\\sqrt{x^2} + \\color{red}{y}', { throwOnError: false });
+		const sanitized = sanitizeRenderedHtml(html);
+		// Only trailing semicolons and attribute case change
+		assert.strictEqual(
+			sanitized,
+			html
+				.replace(/;"/g, '"')
+				.replace(/viewBox=/g, 'viewbox=')
+				.replace(/preserveAspectRatio=/g, 'preserveaspectratio=')
+				.replace(/\/>/g, '></path>')
+		);
+		assert.ok(sanitized.includes('<math xmlns="http://www.w3.org/1998/Math/MathML">'));
+		assert.ok(sanitized.includes('style="height:'));
+	});
+});
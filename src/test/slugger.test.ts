@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+
+import { createSlugger, slugify } from '../slugger';
+
+suite('Slugger Test Suite', () => {
+	test('GitHub strategy keeps non-ASCII letters', () => {
+		assert.strictEqual(slugify('Hello, World!', 'github'), 'hello-world');
+		assert.strictEqual(slugify('日本語の見出し', 'github'), '日本語の見出し');
+		assert.strictEqual(slugify('Привет мир', 'github'), 'привет-мир');
+		assert.strictEqual(slugify('Café déjà vu', 'github'), 'café-déjà-vu');
+	});
+
+	test('GitHub strategy turns every space into a dash', () => {
+		assert.strictEqual(slugify('a  &  b', 'github'), 'a----b');
+		assert.strictEqual(slugify('snake_case and-dash', 'github'), 'snake_case-and-dash');
+	});
+
+	test('GitLab strategy collapses repeated dashes', () => {
+		assert.strictEqual(slugify('a  &  b', 'gitlab'), 'a-b');
+		assert.strictEqual(slugify('Ünïcode Title', 'gitlab'), 'ünïcode-title');
+	});
+
+	test('VS Code strategy strips punctuation and edge dashes', () => {
+		assert.strictEqual(slugify('  (Intro) Section ', 'vscode'), 'intro-section');
+		assert.strictEqual(slugify('What? Why!', 'vscode'), 'what-why');
+	});
+
+	test('Slugger de-duplicates repeated headings', () => {
+		const slug = createSlugger('github');
+		assert.strictEqual(slug('Usage'), 'usage');
+		assert.strictEqual(slug('Usage'), 'usage-1');
+		assert.strictEqual(slug('Usage 1'), 'usage-1-1');
+		assert.strictEqual(slug('Usage'), 'usage-2');
+	});
+});